@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, rmSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import express from "express";
+import request from "supertest";
+import type { Request, Response } from "express";
+import { sanitizeArgs, touchedIds, writeAudit, queryAudit, auditRequest, auditToolHandler } from "./audit.js";
+import { runWithAgent } from "./config.js";
+import type { AuditEntry } from "./audit.js";
+
+let testDir: string;
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return { ts: "2026-03-04T10:00:00.000Z", agentId: "coo", kind: "tool", name: "list_emails", args: {}, status: "ok", durationMs: 1, ...overrides };
+}
+
+describe("audit", () => {
+  beforeEach(() => {
+    testDir = join(tmpdir(), `fagents-audit-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    process.env.AUDIT_LOG = join(testDir, "audit.log");
+  });
+
+  afterEach(() => {
+    delete process.env.AUDIT_LOG;
+    delete process.env.AUDIT_MAX_BYTES;
+    delete process.env.AUDIT_KEEP;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("redacts message content and truncates long strings", () => {
+    const args = sanitizeArgs({
+      to: "alice@example.com",
+      body: "secret plans",
+      attachments: [{ filename: "a.pdf", content: "QUJD" }],
+      subject: "x".repeat(300),
+    }) as Record<string, unknown>;
+    expect(args.to).toBe("alice@example.com");
+    expect(args.body).toBe("[12 chars]");
+    expect(args.attachments).toEqual([{ filename: "a.pdf", content: "[4 chars]" }]);
+    expect(args.subject).toMatch(/…\[300 chars\]$/);
+  });
+
+  it("collects UIDs and Message-IDs from args and results", () => {
+    expect(touchedIds({ uids: [1, 2] }, { uidMap: { 1: 10, 2: 11 } })).toEqual({ uids: [1, 2, 10, 11] });
+    expect(touchedIds({ uid: 5 }, { messageId: "<m@x>" })).toEqual({ uids: [5], messageIds: ["<m@x>"] });
+    expect(touchedIds({}, undefined)).toEqual({});
+  });
+
+  it("queries newest first with filters", async () => {
+    writeAudit(entry({ ts: "2026-03-01T00:00:00.000Z" }));
+    writeAudit(entry({ ts: "2026-03-02T00:00:00.000Z", agentId: "dev" }));
+    writeAudit(entry({ ts: "2026-03-03T00:00:00.000Z", name: "send_email" }));
+    expect((await queryAudit()).map(e => e.ts.slice(8, 10))).toEqual(["03", "02", "01"]);
+    expect(await queryAudit({ agentId: "coo" })).toHaveLength(2);
+    expect(await queryAudit({ name: "send_email" })).toHaveLength(1);
+    expect((await queryAudit({ since: "2026-03-02T00:00:00.000Z", until: "2026-03-02T23:59:59.999Z" }))[0].agentId).toBe("dev");
+    expect(await queryAudit({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("rotates at AUDIT_MAX_BYTES and keeps AUDIT_KEEP files", async () => {
+    process.env.AUDIT_MAX_BYTES = "10";
+    process.env.AUDIT_KEEP = "2";
+    for (let i = 1; i <= 4; i++) writeAudit(entry({ ts: `2026-03-0${i}T00:00:00.000Z` }));
+    expect(existsSync(`${process.env.AUDIT_LOG}.2`)).toBe(true);
+    expect(existsSync(`${process.env.AUDIT_LOG}.3`)).toBe(false);
+    // Oldest entry rotated out
+    expect((await queryAudit()).map(e => e.ts.slice(8, 10))).toEqual(["04", "03", "02"]);
+  });
+
+  it("reads long logs backwards across chunk boundaries and stops at the limit", async () => {
+    // Multi-byte args so lines straddle 64 KiB chunk edges mid-character
+    for (let i = 0; i < 500; i++) writeAudit(entry({ ts: `2026-03-01T00:00:${String(i % 60).padStart(2, "0")}.${String(i).padStart(3, "0")}Z`, args: { subject: "é".repeat(150) } }));
+    const all = await queryAudit({ limit: 1000 });
+    expect(all).toHaveLength(500);
+    expect(all[0].ts.slice(-4)).toBe("499Z");
+    expect(all[499].args.subject).toBe("é".repeat(150));
+    // An unreadable older file is never opened when the current log fills the limit
+    mkdirSync(`${process.env.AUDIT_LOG}.1`);
+    expect(await queryAudit({ limit: 10 })).toHaveLength(10);
+    await expect(queryAudit({ limit: 1000 })).rejects.toThrow();
+  });
+
+  it("records REST requests with route pattern, agent and status", async () => {
+    const app = express();
+    app.use("/api", auditRequest);
+    app.get("/api/items/:uid", (req: Request, res: Response) => {
+      (req as unknown as Record<string, unknown>).agentId = "coo";
+      res.status(404).json({ error: "nope" });
+    });
+    await request(app).get("/api/items/42?mailbox=INBOX");
+    const [logged] = await queryAudit();
+    expect(logged).toMatchObject({
+      kind: "rest",
+      name: "GET /api/items/:uid",
+      agentId: "coo",
+      status: "error",
+      httpStatus: 404,
+      args: { uid: "42", mailbox: "INBOX" },
+    });
+  });
+
+  it("wraps MCP tool handlers", async () => {
+    const handler = auditToolHandler("read_email", async ({ uid }: { uid: number }) => ({
+      content: [{ type: "text" as const, text: JSON.stringify({ uid, error: "not found" }) }],
+    }));
+    await runWithAgent("coo", () => handler({ uid: 7 }));
+    expect((await queryAudit())[0]).toMatchObject({ kind: "tool", name: "read_email", agentId: "coo", status: "error", error: "not found", uids: [7] });
+  });
+});
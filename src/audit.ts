@@ -0,0 +1,229 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from "fs";
+import { open } from "fs/promises";
+import { dirname, resolve } from "path";
+import type { Request, Response, NextFunction } from "express";
+import { getCurrentAgentId } from "./config.js";
+
+// --- Audit log: one JSON line per MCP tool call and REST request ---
+// Written to AUDIT_LOG (default ./data/audit.log), rotated to .1 … .N at AUDIT_MAX_BYTES.
+
+export interface AuditEntry {
+  ts: string;
+  agentId: string | null;
+  kind: "tool" | "rest";
+  /** Tool name, or "METHOD /path" for REST */
+  name: string;
+  args: Record<string, unknown>;
+  status: "ok" | "error";
+  error?: string;
+  httpStatus?: number;
+  durationMs: number;
+  uids?: number[];
+  messageIds?: string[];
+}
+
+export interface AuditQuery {
+  agentId?: string;
+  name?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+function auditSettings() {
+  const maxBytes = parseInt(process.env.AUDIT_MAX_BYTES ?? "", 10);
+  const keep = parseInt(process.env.AUDIT_KEEP ?? "", 10);
+  return {
+    path: process.env.AUDIT_LOG || resolve(process.cwd(), "data/audit.log"),
+    maxBytes: isNaN(maxBytes) || maxBytes <= 0 ? 10 * 1024 * 1024 : maxBytes,
+    keep: isNaN(keep) || keep < 1 ? 5 : keep,
+  };
+}
+
+// Message content never goes into the audit log — only its size
+const CONTENT_KEYS = new Set(["body", "html", "text", "note", "content"]);
+const MAX_STRING = 200;
+
+export function sanitizeArgs(value: unknown, key = ""): unknown {
+  if (typeof value === "string") {
+    if (CONTENT_KEYS.has(key)) return `[${value.length} chars]`;
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…[${value.length} chars]` : value;
+  }
+  if (Array.isArray(value)) return value.map(v => sanitizeArgs(v, key));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, sanitizeArgs(v, k)]));
+  }
+  return value;
+}
+
+/** UIDs and Message-IDs mentioned in tool arguments or results. */
+export function touchedIds(args: Record<string, unknown>, result: unknown): Pick<AuditEntry, "uids" | "messageIds"> {
+  const uids = new Set<number>();
+  const messageIds = new Set<string>();
+  const visit = (v: unknown, key = ""): void => {
+    if (typeof v === "number" && (key === "uid" || key === "uids")) uids.add(v);
+    else if (typeof v === "string" && key === "messageId") messageIds.add(v);
+    else if (Array.isArray(v)) v.forEach(x => visit(x, key));
+    else if (v && typeof v === "object") {
+      for (const [k, x] of Object.entries(v)) {
+        // uidMap: { srcUid: dstUid }
+        if (k === "uidMap" && x && typeof x === "object") Object.entries(x).forEach(([s, d]) => { uids.add(Number(s)); uids.add(Number(d)); });
+        else visit(x, k);
+      }
+    }
+  };
+  visit(args);
+  visit(result);
+  return {
+    ...(uids.size ? { uids: [...uids] } : {}),
+    ...(messageIds.size ? { messageIds: [...messageIds] } : {}),
+  };
+}
+
+function rotate(path: string, keep: number): void {
+  rmSync(`${path}.${keep}`, { force: true });
+  for (let i = keep - 1; i >= 1; i--) {
+    if (existsSync(`${path}.${i}`)) renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+  }
+  renameSync(path, `${path}.1`);
+}
+
+export function writeAudit(entry: AuditEntry): void {
+  const { path, maxBytes, keep } = auditSettings();
+  try {
+    mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+    if (existsSync(path) && statSync(path).size >= maxBytes) rotate(path, keep);
+    appendFileSync(path, JSON.stringify(entry) + "\n", { mode: 0o600 });
+  } catch (e) {
+    // Auditing must never break the request it is recording
+    console.error(`audit: failed to write ${path}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+const READ_CHUNK = 64 * 1024;
+
+/** Lines of `file`, last line first, read backwards a chunk at a time so a query can stop early. */
+async function* linesNewestFirst(file: string): AsyncGenerator<string> {
+  let handle;
+  try {
+    handle = await open(file, "r");
+  } catch {
+    return;
+  }
+  try {
+    let position = (await handle.stat()).size;
+    // Bytes of a line that starts in an earlier chunk
+    let carry = Buffer.alloc(0);
+    while (position > 0) {
+      const size = Math.min(READ_CHUNK, position);
+      position -= size;
+      const chunk = Buffer.alloc(size);
+      await handle.read(chunk, 0, size, position);
+      let buf = Buffer.concat([chunk, carry]);
+      let newline = buf.lastIndexOf(0x0a);
+      while (newline !== -1) {
+        const line = buf.subarray(newline + 1).toString("utf-8");
+        if (line) yield line;
+        buf = buf.subarray(0, newline);
+        newline = buf.lastIndexOf(0x0a);
+      }
+      carry = buf;
+    }
+    const first = carry.toString("utf-8");
+    if (first) yield first;
+  } finally {
+    await handle.close();
+  }
+}
+
+export async function queryAudit(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  const { path, keep } = auditSettings();
+  const limit = query.limit ?? 100;
+  const matches: AuditEntry[] = [];
+  // Newest file first, newest line first; stops reading once `limit` entries match
+  for (const file of [path, ...Array.from({ length: keep }, (_, i) => `${path}.${i + 1}`)]) {
+    for await (const line of linesNewestFirst(file)) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (query.agentId && entry.agentId !== query.agentId) continue;
+      if (query.name && entry.name !== query.name) continue;
+      if (query.since && entry.ts < query.since) continue;
+      if (query.until && entry.ts > query.until) continue;
+      matches.push(entry);
+      if (matches.length >= limit) return matches;
+    }
+  }
+  return matches;
+}
+
+// --- MCP tool instrumentation ---
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function toolOutcome(result: any): { status: AuditEntry["status"]; error?: string; data?: unknown } {
+  if (result?.isError) return { status: "error", error: result.content?.[0]?.text };
+  const text = result?.content?.find((c: any) => c.type === "text")?.text;
+  if (typeof text !== "string") return { status: "ok" };
+  try {
+    const data = JSON.parse(text);
+    if (data && typeof data === "object" && "error" in data) return { status: "error", error: String(data.error), data };
+    return { status: "ok", data };
+  } catch {
+    return { status: "ok" };
+  }
+}
+
+/** Wrap the handler of tool `name` so each call writes an audit entry. Used by registerTool. */
+export function auditToolHandler<H extends (...args: any[]) => any>(name: string, handler: H): H {
+  const wrapped = async (...callArgs: any[]) => {
+    const start = Date.now();
+    const args = callArgs[0] ?? {};
+    const entry = (status: AuditEntry["status"], error?: string, data?: unknown): AuditEntry => ({
+      ts: new Date(start).toISOString(),
+      agentId: getCurrentAgentId() ?? null,
+      kind: "tool",
+      name,
+      args: sanitizeArgs(args) as Record<string, unknown>,
+      status,
+      ...(error ? { error } : {}),
+      durationMs: Date.now() - start,
+      ...touchedIds(args, data),
+    });
+    try {
+      const result = await handler(...callArgs);
+      const outcome = toolOutcome(result);
+      writeAudit(entry(outcome.status, outcome.error, outcome.data));
+      return result;
+    } catch (error) {
+      writeAudit(entry("error", error instanceof Error ? error.message : String(error)));
+      throw error;
+    }
+  };
+  return wrapped as H;
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+// --- REST instrumentation ---
+
+export function auditRequest(req: Request, res: Response, next: NextFunction): void {
+  const start = Date.now();
+  res.on("finish", () => {
+    const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
+    writeAudit({
+      ts: new Date(start).toISOString(),
+      agentId: agentId ?? null,
+      kind: "rest",
+      // Route pattern (e.g. /api/outbox/:id/approve) so entries group per endpoint
+      name: `${req.method} ${req.route?.path ?? req.originalUrl.split("?")[0]}`,
+      args: sanitizeArgs({ ...req.params, ...(req.query as Record<string, unknown>) }) as Record<string, unknown>,
+      status: res.statusCode < 400 ? "ok" : "error",
+      httpStatus: res.statusCode,
+      durationMs: Date.now() - start,
+      ...touchedIds({ ...req.params }, undefined),
+    });
+  });
+  next();
+}
@@ -1,10 +1,10 @@
-import { timingSafeEqual } from "crypto";
 import type { Request, Response, NextFunction } from "express";
 import { hasAgents, resolveAgentByApiKey, getServerConfig } from "./config.js";
+import { verifyApiKey } from "./keys.js";
 
 const AUTH_ERROR = "Unauthorized: Invalid or missing API key";
 
-export function authenticate(req: Request, res: Response, next: NextFunction): void {
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
   const multiAgent = hasAgents();
   const config = getServerConfig();
 
@@ -30,7 +30,7 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
   }
 
   if (multiAgent) {
-    const agentId = resolveAgentByApiKey(providedKey);
+    const agentId = await resolveAgentByApiKey(providedKey);
     if (!agentId) {
       res.status(401).json({
         jsonrpc: "2.0",
@@ -44,10 +44,33 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
     return;
   }
 
-  // Single-agent mode
-  const keyBuf = Buffer.from(providedKey);
-  const apiBuf = Buffer.from(config.apiKey!);
-  if (keyBuf.length !== apiBuf.length || !timingSafeEqual(keyBuf, apiBuf)) {
+  // Single-agent mode — MCP_API_KEY may be plain or a scrypt hash
+  if (!(await verifyApiKey(providedKey, config.apiKey!))) {
+    res.status(401).json({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: AUTH_ERROR },
+      id: null,
+    });
+    return;
+  }
+  next();
+}
+
+// Admin endpoints (outbox approval, etc.) — separate key from any agent, read from process env only
+export async function authenticateAdmin(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const adminKey = process.env.MCP_ADMIN_KEY;
+  const providedKey = req.headers["x-api-key"];
+
+  if (!adminKey) {
+    res.status(401).json({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: "Unauthorized: No admin auth configured (set MCP_ADMIN_KEY)" },
+      id: null,
+    });
+    return;
+  }
+
+  if (!(await verifyApiKey(typeof providedKey === "string" ? providedKey : "", adminKey))) {
     res.status(401).json({
       jsonrpc: "2.0",
       error: { code: -32001, message: AUTH_ERROR },
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, symlinkSync, readdirSync, utimesSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import { putBlob, getBlob, openBlob, sweepBlobs, resolveAttachments, BlobTooLargeError } from "./blobs.js";
+
+let testDir: string;
+
+async function read(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+describe("blobs", () => {
+  beforeEach(() => {
+    testDir = join(tmpdir(), `fagents-blobs-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    process.env.BLOB_DIR = join(testDir, "blobs");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    for (const key of ["BLOB_DIR", "BLOB_MAX_BYTES", "BLOB_TTL_MS", "ATTACHMENT_PATHS"]) delete process.env[key];
+  });
+
+  it("streams content in and returns a checksummed reference for the owning agent only", async () => {
+    const content = Buffer.from("hello blob");
+    const ref = await putBlob("coo", Readable.from([content.subarray(0, 5), content.subarray(5)]), { filename: "../x/report.txt", contentType: "text/plain" });
+    expect(ref).toMatchObject({ size: 10, contentType: "text/plain", filename: "report.txt" });
+    expect(ref.ref).toMatch(/^blob:[0-9a-f]{32}$/);
+    expect(ref.sha256).toBe(createHash("sha256").update(content).digest("hex"));
+
+    const meta = getBlob(ref.ref, "coo")!;
+    expect((await read(await openBlob(meta))).toString()).toBe("hello blob");
+    expect(getBlob(ref.ref, "dev")).toBeNull();
+    expect(getBlob("blob:../../etc/passwd", "coo")).toBeNull();
+  });
+
+  it("rejects oversized blobs without keeping a partial file", async () => {
+    process.env.BLOB_MAX_BYTES = "4";
+    await expect(putBlob(null, Buffer.from("too large"))).rejects.toBeInstanceOf(BlobTooLargeError);
+    expect(readdirSync(process.env.BLOB_DIR!)).toEqual([]);
+  });
+
+  it("expires blobs after BLOB_TTL_MS", async () => {
+    process.env.BLOB_TTL_MS = "1000";
+    const ref = await putBlob(null, Buffer.from("x"));
+    expect(sweepBlobs(Date.now())).toBe(0);
+    expect(sweepBlobs(Date.now() + 2000)).toBe(1);
+    expect(getBlob(ref.ref, null)).toBeNull();
+  });
+
+  it("sweeps content left without metadata once it is older than BLOB_TTL_MS", async () => {
+    process.env.BLOB_TTL_MS = "1000";
+    const ref = await putBlob(null, Buffer.from("x"));
+    const id = ref.ref.slice("blob:".length);
+    const dir = process.env.BLOB_DIR!;
+    const stale = new Date(Date.now() - 5000);
+    writeFileSync(join(dir, `${"a".repeat(32)}.bin`), "orphan");
+    utimesSync(join(dir, `${"a".repeat(32)}.bin`), stale, stale);
+    writeFileSync(join(dir, `${"b".repeat(32)}.bin.tmp`), "still uploading");
+
+    expect(sweepBlobs()).toBe(1);
+    expect(readdirSync(dir).sort()).toEqual([`${id}.bin`, `${id}.json`, `${"b".repeat(32)}.bin.tmp`].sort());
+
+    rmSync(join(dir, `${id}.bin`));
+    expect(getBlob(ref.ref, null)).toBeNull();
+    await expect(openBlob(JSON.parse(readFileSync(join(dir, `${id}.json`), "utf-8")))).rejects.toMatchObject({ code: "ENOENT" });
+  });
+
+  it("resolves blob, path and inline attachments", async () => {
+    const ref = await putBlob("coo", Buffer.from("pdf bytes"), { filename: "invoice.pdf", contentType: "application/pdf" });
+    const allowed = join(testDir, "outgoing");
+    mkdirSync(allowed);
+    writeFileSync(join(allowed, "notes.txt"), "notes");
+    process.env.ATTACHMENT_PATHS = allowed;
+
+    const resolved = resolveAttachments([
+      { blob: ref.ref },
+      { path: join(allowed, "notes.txt"), filename: "n.txt" },
+      { filename: "a.bin", content: "AAEC" },
+    ], "coo");
+    expect(resolved).toEqual([
+      { filename: "invoice.pdf", content: Buffer.from("pdf bytes").toString("base64"), contentType: "application/pdf" },
+      { filename: "n.txt", content: Buffer.from("notes").toString("base64") },
+      { filename: "a.bin", content: "AAEC" },
+    ]);
+    expect(() => resolveAttachments([{ blob: ref.ref }], "dev")).toThrow(/not found or expired/);
+    expect(() => resolveAttachments([{ blob: ref.ref, content: "AA" }], "coo")).toThrow(/exactly one/);
+  });
+
+  it("only attaches files inside ATTACHMENT_PATHS, following symlinks", () => {
+    const allowed = join(testDir, "outgoing");
+    mkdirSync(allowed);
+    writeFileSync(join(testDir, "secret.env"), "IMAP_PASS=x");
+    symlinkSync(join(testDir, "secret.env"), join(allowed, "link.env"));
+
+    expect(() => resolveAttachments([{ path: join(testDir, "secret.env") }], null)).toThrow(/disabled/);
+    process.env.ATTACHMENT_PATHS = allowed;
+    expect(() => resolveAttachments([{ path: join(testDir, "secret.env") }], null)).toThrow(/outside ATTACHMENT_PATHS/);
+    expect(() => resolveAttachments([{ path: join(allowed, "link.env") }], null)).toThrow(/outside ATTACHMENT_PATHS/);
+    expect(() => resolveAttachments([{ path: `${allowed}/../secret.env` }], null)).toThrow(/outside ATTACHMENT_PATHS/);
+  });
+});
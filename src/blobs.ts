@@ -0,0 +1,254 @@
+import { createWriteStream, existsSync, mkdirSync, readFileSync, readdirSync, realpathSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { basename, join, resolve, sep } from "path";
+import { createHash, randomBytes } from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { open } from "fs/promises";
+import { getEnv } from "./config.js";
+import type { EmailAttachment } from "./types.js";
+
+// --- Local blob store: large attachments by reference instead of base64 in JSON ---
+// One <id>.bin + <id>.json pair per blob in BLOB_DIR. Blobs belong to the agent that
+// stored them and expire after BLOB_TTL_MS; references look like "blob:<id>".
+
+export interface BlobMeta {
+  id: string;
+  agentId: string | null;
+  filename?: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface BlobRef {
+  ref: string;
+  size: number;
+  sha256: string;
+  contentType: string;
+  filename?: string;
+  expiresAt: string;
+}
+
+export class BlobTooLargeError extends Error {
+  constructor(public size: number, public limit: number) {
+    super(`Blob is ${size} bytes; the limit is ${limit} bytes`);
+    this.name = "BlobTooLargeError";
+  }
+}
+
+const REF_PREFIX = "blob:";
+let sweepTimer: NodeJS.Timeout | undefined;
+
+function blobDir(): string {
+  return process.env.BLOB_DIR || resolve(process.cwd(), "data/blobs");
+}
+
+export function blobSettings() {
+  const ttlMs = parseInt(process.env.BLOB_TTL_MS ?? "", 10);
+  const maxBytes = parseInt(process.env.BLOB_MAX_BYTES ?? "", 10);
+  return {
+    ttlMs: isNaN(ttlMs) || ttlMs <= 0 ? 60 * 60 * 1000 : ttlMs,
+    maxBytes: isNaN(maxBytes) || maxBytes <= 0 ? 25 * 1024 * 1024 : maxBytes,
+  };
+}
+
+function parseRef(ref: string): string | null {
+  const match = /^(?:blob:)?([0-9a-f]{32})$/.exec(ref.trim());
+  return match ? match[1] : null;
+}
+
+function toRef(meta: BlobMeta): BlobRef {
+  return {
+    ref: `${REF_PREFIX}${meta.id}`,
+    size: meta.size,
+    sha256: meta.sha256,
+    contentType: meta.contentType,
+    ...(meta.filename ? { filename: meta.filename } : {}),
+    expiresAt: meta.expiresAt,
+  };
+}
+
+function removeBlob(id: string): void {
+  rmSync(join(blobDir(), `${id}.bin`), { force: true });
+  rmSync(join(blobDir(), `${id}.json`), { force: true });
+}
+
+/** Delete expired blobs, and content files left without metadata for longer than BLOB_TTL_MS. Returns how many were removed. */
+export function sweepBlobs(now = Date.now()): number {
+  let files: string[];
+  try {
+    files = readdirSync(blobDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+    throw error;
+  }
+  const { ttlMs } = blobSettings();
+  const metaFiles = new Set(files.filter(f => f.endsWith(".json")));
+  let removed = 0;
+  for (const f of files) {
+    const id = f.slice(0, 32);
+    if (!f.endsWith(".json")) {
+      // A .bin(.tmp) without metadata: an upload still streaming in, or one cut short by a crash
+      if (metaFiles.has(`${id}.json`)) continue;
+      try {
+        if (statSync(join(blobDir(), f)).mtimeMs + ttlMs > now) continue;
+      } catch {
+        continue;
+      }
+      rmSync(join(blobDir(), f), { force: true });
+      removed++;
+      continue;
+    }
+    try {
+      const meta = JSON.parse(readFileSync(join(blobDir(), f), "utf-8")) as BlobMeta;
+      if (Date.parse(meta.expiresAt) > now) continue;
+    } catch {
+      // unreadable metadata — treat as expired
+    }
+    removeBlob(id);
+    removed++;
+  }
+  return removed;
+}
+
+/**
+ * Stream `source` into the store, hashing as it goes. Anything over BLOB_MAX_BYTES is
+ * drained (so an IMAP download stays in sync) but not kept, then rejected.
+ */
+export async function putBlob(agentId: string | null, source: Readable | Buffer, info: { filename?: string; contentType?: string } = {}): Promise<BlobRef> {
+  const { ttlMs, maxBytes } = blobSettings();
+  mkdirSync(blobDir(), { recursive: true, mode: 0o700 });
+  const id = randomBytes(16).toString("hex");
+  const path = join(blobDir(), `${id}.bin`);
+  const tmp = `${path}.tmp`;
+  const hash = createHash("sha256");
+  let size = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, done) {
+      size += chunk.length;
+      if (size > maxBytes) return done();
+      hash.update(chunk);
+      done(null, chunk);
+    },
+  });
+  try {
+    await pipeline(Buffer.isBuffer(source) ? Readable.from([source]) : source, counter, createWriteStream(tmp, { mode: 0o600 }));
+    if (size > maxBytes) throw new BlobTooLargeError(size, maxBytes);
+  } catch (error) {
+    rmSync(tmp, { force: true });
+    throw error;
+  }
+
+  const now = Date.now();
+  const meta: BlobMeta = {
+    id,
+    agentId,
+    ...(info.filename ? { filename: basename(info.filename) } : {}),
+    contentType: info.contentType || "application/octet-stream",
+    size,
+    sha256: hash.digest("hex"),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+  };
+  // Metadata first: if we stop between the two steps, the sweep still finds and expires the pair
+  try {
+    writeFileSync(join(blobDir(), `${id}.json`), JSON.stringify(meta, null, 2), { mode: 0o600 });
+    renameSync(tmp, path);
+  } catch (error) {
+    removeBlob(id);
+    rmSync(tmp, { force: true });
+    throw error;
+  }
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(() => sweepBlobs(), 60_000);
+    sweepTimer.unref();
+  }
+  return toRef(meta);
+}
+
+/** Blob metadata if `ref` exists, belongs to `agentId` and hasn't expired; null otherwise. */
+export function getBlob(ref: string, agentId: string | null): BlobMeta | null {
+  const id = parseRef(ref);
+  if (!id) return null;
+  const metaPath = join(blobDir(), `${id}.json`);
+  if (!existsSync(metaPath) || !existsSync(join(blobDir(), `${id}.bin`))) return null;
+  const meta = JSON.parse(readFileSync(metaPath, "utf-8")) as BlobMeta;
+  if (Date.parse(meta.expiresAt) <= Date.now()) {
+    removeBlob(id);
+    return null;
+  }
+  return meta.agentId === agentId ? meta : null;
+}
+
+/** Open a blob's content for reading; rejects (ENOENT when swept meanwhile) before any data is streamed. */
+export async function openBlob(meta: BlobMeta): Promise<Readable> {
+  const handle = await open(join(blobDir(), `${meta.id}.bin`), "r");
+  return handle.createReadStream();
+}
+
+// --- Attachment sources for outgoing mail: inline base64, a blob, or an allowed local file ---
+
+export interface AttachmentInput {
+  filename?: string;
+  content?: string;
+  blob?: string;
+  path?: string;
+  contentType?: string;
+}
+
+// ATTACHMENT_PATHS (per agent): comma-separated directories local files may be attached from
+function allowedFile(path: string): string {
+  const roots = (getEnv("ATTACHMENT_PATHS") ?? "").split(",").map(s => s.trim()).filter(Boolean);
+  if (!roots.length) throw new Error("Local file attachments are disabled (set ATTACHMENT_PATHS)");
+  let real: string;
+  try {
+    real = realpathSync(path);
+  } catch {
+    throw new Error(`File not found: ${path}`);
+  }
+  // Compare real paths so symlinks can't point outside the allowed directories
+  const inside = roots.some(root => {
+    try {
+      const realRoot = realpathSync(root);
+      return real.startsWith(realRoot.endsWith(sep) ? realRoot : realRoot + sep);
+    } catch {
+      return false;
+    }
+  });
+  if (!inside) throw new Error(`Path is outside ATTACHMENT_PATHS: ${path}`);
+  if (!statSync(real).isFile()) throw new Error(`Not a file: ${path}`);
+  return real;
+}
+
+/** Resolve blob and path attachments to inline content. Each entry needs exactly one source. */
+export function resolveAttachments(inputs: AttachmentInput[] | undefined, agentId: string | null): EmailAttachment[] | undefined {
+  if (!inputs) return undefined;
+  const { maxBytes } = blobSettings();
+  return inputs.map((input, i) => {
+    const label = `Attachment ${i + 1}`;
+    const sources = [input.content, input.blob, input.path].filter(s => s !== undefined).length;
+    if (sources !== 1) throw new Error(`${label}: give exactly one of content, blob or path`);
+    const contentType = input.contentType ? { contentType: input.contentType } : {};
+
+    if (input.content !== undefined) {
+      if (!input.filename) throw new Error(`${label}: filename is required with content`);
+      return { filename: input.filename, content: input.content, ...contentType };
+    }
+    if (input.blob !== undefined) {
+      const meta = getBlob(input.blob, agentId);
+      if (!meta) throw new Error(`${label}: blob not found or expired: ${input.blob}`);
+      return {
+        filename: input.filename || meta.filename || "attachment",
+        content: readFileSync(join(blobDir(), `${meta.id}.bin`)).toString("base64"),
+        contentType: input.contentType || meta.contentType,
+      };
+    }
+    const file = allowedFile(input.path!);
+    const size = statSync(file).size;
+    if (size > maxBytes) throw new Error(`${label}: file is ${size} bytes; the limit is ${maxBytes} bytes`);
+    return { filename: input.filename || basename(file), content: readFileSync(file).toString("base64"), ...contentType };
+  });
+}
@@ -8,13 +8,16 @@ import type { Request, Response } from "express";
 import { authenticate } from "./auth.js";
 import { runWithAgent, getImapConfig } from "./config.js";
 import * as imap from "./imap.js";
+import { getToolScopes, mailboxAllowed, ScopeError } from "./scopes.js";
+import { resolvePositions, encodeCursor } from "./cursor.js";
+import type { MailboxPosition } from "./cursor.js";
 
 // Mock imap module (not fs)
 vi.mock("./imap.js", () => ({
-  checkNewEmail: vi.fn(),
+  checkMailbox: vi.fn(),
 }));
 
-const mockCheckNewEmail = vi.mocked(imap.checkNewEmail);
+const mockCheckMailbox = vi.mocked(imap.checkMailbox);
 
 let testDir: string;
 let originalAgentsDir: string | undefined;
@@ -24,7 +27,7 @@ function setupAgentsDir() {
   mkdirSync(testDir, { recursive: true });
   process.env.AGENTS_DIR = testDir;
 
-  // Create agent "coo" with email.env
+  // Create agent "coo" with email.env, limited to reading INBOX and Projects/*
   const cooDir = join(testDir, "coo");
   mkdirSync(cooDir, { recursive: true });
   writeFileSync(join(cooDir, "email.env"), [
@@ -38,6 +41,7 @@ function setupAgentsDir() {
     "SMTP_USER=coo@biz.com",
     "SMTP_PASS=secret",
   ].join("\n"));
+  writeFileSync(join(cooDir, "scopes.env"), "SCOPE_READ_MAILBOXES=INBOX,Projects/*");
 }
 
 // Build a minimal express app with the /api/check-email route
@@ -46,18 +50,38 @@ function buildApp() {
   app.use(express.json());
   app.get("/api/check-email", authenticate, async (req: Request, res: Response) => {
     const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
-    const sinceUid = parseInt(req.query.since_uid as string || "0", 10);
-    if (isNaN(sinceUid) || sinceUid < 0) {
+    const sinceUid = req.query.since_uid === undefined ? undefined : parseInt(req.query.since_uid as string, 10);
+    if (sinceUid !== undefined && (isNaN(sinceUid) || sinceUid < 0)) {
       res.status(400).json({ error: "Invalid since_uid parameter" });
       return;
     }
+    const mailboxes = ([] as unknown[]).concat(req.query.mailbox ?? []).filter((m): m is string => typeof m === "string" && m !== "");
+    let positions: MailboxPosition[];
+    try {
+      positions = resolvePositions({ cursor: req.query.cursor as string | undefined, mailboxes, sinceUid });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    const scopes = agentId ? runWithAgent(agentId, getToolScopes) : getToolScopes();
+    const denied = positions.find(p => !mailboxAllowed(p.mailbox, "read", scopes));
+    if (denied) {
+      res.status(403).json(new ScopeError(denied.mailbox, "read"));
+      return;
+    }
     try {
       const fn = async () => {
         const imapConfig = getImapConfig();
-        return await imap.checkNewEmail(imapConfig, sinceUid);
+        const checks: imap.MailboxCheck[] = [];
+        for (const p of positions) checks.push(await imap.checkMailbox(imapConfig, p.mailbox, p.lastUid, p.uidValidity));
+        return checks;
       };
-      const messages = agentId ? await runWithAgent(agentId, fn) : await fn();
-      res.json({ messages });
+      const checks = agentId ? await runWithAgent(agentId, fn) : await fn();
+      res.json({
+        messages: checks.flatMap(c => c.messages.map(m => ({ ...m, mailbox: c.mailbox }))),
+        mailboxes: checks.map(({ messages: found, ...c }) => ({ ...c, count: found.length })),
+        cursor: encodeCursor(checks.map(c => ({ mailbox: c.mailbox, uidValidity: c.uidValidity, lastUid: c.lastUid }))),
+      });
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       res.status(500).json({ error: msg });
@@ -66,12 +90,23 @@ function buildApp() {
   return app;
 }
 
+// A server where every mailbox has UIDVALIDITY 7 and these messages
+function serveMailboxes(mail: Record<string, Array<{ uid: number; from: string; date: string }>>) {
+  mockCheckMailbox.mockImplementation(async (_config, mailbox, sinceUid, uidValidity) => {
+    if (uidValidity !== undefined && uidValidity !== "7") {
+      return { mailbox, uidValidity: "7", lastUid: 200, messages: [], uidValidityChanged: { previous: uidValidity, current: "7" } };
+    }
+    const messages = (mail[mailbox] ?? []).filter(m => m.uid > sinceUid);
+    return { mailbox, uidValidity: "7", lastUid: Math.max(sinceUid, ...messages.map(m => m.uid)), messages };
+  });
+}
+
 describe("/api/check-email", () => {
   beforeEach(() => {
     vi.resetModules();
     originalAgentsDir = process.env.AGENTS_DIR;
     setupAgentsDir();
-    mockCheckNewEmail.mockReset();
+    mockCheckMailbox.mockReset();
   });
 
   afterEach(() => {
@@ -83,56 +118,102 @@ describe("/api/check-email", () => {
     if (testDir) rmSync(testDir, { recursive: true, force: true });
   });
 
-  it("returns empty messages when no new email", async () => {
-    mockCheckNewEmail.mockResolvedValue([]);
-    const app = buildApp();
-    const res = await request(app)
-      .get("/api/check-email?since_uid=100")
+  it("checks INBOX from the start by default and returns a cursor", async () => {
+    serveMailboxes({});
+    const res = await request(buildApp())
+      .get("/api/check-email")
       .set("x-api-key", "key-coo-123");
     expect(res.status).toBe(200);
-    expect(res.body.messages).toEqual([]);
+    expect(mockCheckMailbox).toHaveBeenCalledWith(expect.any(Object), "INBOX", 0, undefined);
+    expect(res.body).toEqual({
+      messages: [],
+      mailboxes: [{ mailbox: "INBOX", uidValidity: "7", lastUid: 0, count: 0 }],
+      cursor: encodeCursor([{ mailbox: "INBOX", uidValidity: "7", lastUid: 0 }]),
+    });
   });
 
-  it("returns new messages with metadata only", async () => {
-    mockCheckNewEmail.mockResolvedValue([
-      { uid: 101, from: "alice@example.com", date: "2026-03-04T10:00:00Z" },
-      { uid: 102, from: "bob@example.com", date: "2026-03-04T11:00:00Z" },
-    ]);
-    const app = buildApp();
-    const res = await request(app)
-      .get("/api/check-email?since_uid=100")
+  it("returns new messages with metadata only, tagged with their mailbox", async () => {
+    serveMailboxes({
+      INBOX: [
+        { uid: 101, from: "alice@example.com", date: "2026-03-04T10:00:00Z" },
+        { uid: 102, from: "bob@example.com", date: "2026-03-04T11:00:00Z" },
+      ],
+      "Projects/Acme": [{ uid: 7, from: "carol@acme.com", date: "2026-03-04T12:00:00Z" }],
+    });
+    const res = await request(buildApp())
+      .get("/api/check-email?since_uid=100&mailbox=INBOX&mailbox=Projects/Acme")
       .set("x-api-key", "key-coo-123");
     expect(res.status).toBe(200);
-    expect(res.body.messages).toHaveLength(2);
-    expect(res.body.messages[0]).toEqual({
-      uid: 101,
-      from: "alice@example.com",
-      date: "2026-03-04T10:00:00Z",
-    });
+    expect(res.body.messages).toEqual([
+      { uid: 101, from: "alice@example.com", date: "2026-03-04T10:00:00Z", mailbox: "INBOX" },
+      { uid: 102, from: "bob@example.com", date: "2026-03-04T11:00:00Z", mailbox: "INBOX" },
+    ]);
+    expect(res.body.mailboxes).toEqual([
+      { mailbox: "INBOX", uidValidity: "7", lastUid: 102, count: 2 },
+      { mailbox: "Projects/Acme", uidValidity: "7", lastUid: 100, count: 0 },
+    ]);
     // No subject or body in response
     expect(res.body.messages[0]).not.toHaveProperty("subject");
     expect(res.body.messages[0]).not.toHaveProperty("body");
   });
 
-  it("defaults since_uid to 0", async () => {
-    mockCheckNewEmail.mockResolvedValue([]);
+  it("resumes every mailbox from the cursor and adds newly requested ones", async () => {
+    serveMailboxes({
+      INBOX: [{ uid: 101, from: "alice@example.com", date: "2026-03-04T10:00:00Z" }],
+      "Projects/Acme": [{ uid: 7, from: "carol@acme.com", date: "2026-03-04T12:00:00Z" }],
+    });
     const app = buildApp();
-    await request(app)
-      .get("/api/check-email")
+    const first = await request(app).get("/api/check-email").set("x-api-key", "key-coo-123");
+    expect(first.body.messages.map((m: { uid: number }) => m.uid)).toEqual([101]);
+
+    mockCheckMailbox.mockClear();
+    const next = await request(app)
+      .get(`/api/check-email?cursor=${first.body.cursor}&mailbox=Projects/Acme`)
+      .set("x-api-key", "key-coo-123");
+    expect(mockCheckMailbox.mock.calls.map(c => c.slice(1))).toEqual([["INBOX", 101, "7"], ["Projects/Acme", 0, undefined]]);
+    expect(next.body.messages).toEqual([{ uid: 7, from: "carol@acme.com", date: "2026-03-04T12:00:00Z", mailbox: "Projects/Acme" }]);
+    expect(next.body.cursor).toBe(encodeCursor([
+      { mailbox: "INBOX", uidValidity: "7", lastUid: 101 },
+      { mailbox: "Projects/Acme", uidValidity: "7", lastUid: 7 },
+    ]));
+  });
+
+  it("reports a UIDVALIDITY change from the cursor", async () => {
+    serveMailboxes({ INBOX: [{ uid: 150, from: "alice@example.com", date: "2026-03-04T10:00:00Z" }] });
+    const cursor = encodeCursor([{ mailbox: "INBOX", uidValidity: "6", lastUid: 101 }]);
+    const res = await request(buildApp())
+      .get(`/api/check-email?cursor=${cursor}`)
       .set("x-api-key", "key-coo-123");
-    expect(mockCheckNewEmail).toHaveBeenCalledWith(
-      expect.any(Object),
-      0,
-    );
+    expect(res.status).toBe(200);
+    expect(res.body.messages).toEqual([]);
+    expect(res.body.mailboxes).toEqual([{ mailbox: "INBOX", uidValidity: "7", lastUid: 200, count: 0, uidValidityChanged: { previous: "6", current: "7" } }]);
   });
 
-  it("rejects invalid since_uid", async () => {
+  it("rejects an invalid since_uid or cursor", async () => {
     const app = buildApp();
-    const res = await request(app)
+    const badUid = await request(app)
       .get("/api/check-email?since_uid=abc")
       .set("x-api-key", "key-coo-123");
-    expect(res.status).toBe(400);
-    expect(res.body.error).toMatch(/since_uid/i);
+    expect(badUid.status).toBe(400);
+    expect(badUid.body.error).toMatch(/since_uid/i);
+
+    for (const cursor of ["not-a-cursor", Buffer.from(JSON.stringify({ v: 1, boxes: [{ m: "INBOX", uv: "7", u: -1 }] })).toString("base64url")]) {
+      const res = await request(app)
+        .get(`/api/check-email?cursor=${cursor}`)
+        .set("x-api-key", "key-coo-123");
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe("Invalid cursor");
+    }
+    expect(mockCheckMailbox).not.toHaveBeenCalled();
+  });
+
+  it("rejects mailboxes outside the agent's read scope", async () => {
+    const res = await request(buildApp())
+      .get("/api/check-email?mailbox=INBOX&mailbox=Finance")
+      .set("x-api-key", "key-coo-123");
+    expect(res.status).toBe(403);
+    expect(res.body).toMatchObject({ code: "scope_violation", mailbox: "Finance" });
+    expect(mockCheckMailbox).not.toHaveBeenCalled();
   });
 
   it("rejects missing auth", async () => {
@@ -142,7 +223,7 @@ describe("/api/check-email", () => {
   });
 
   it("returns 500 on IMAP error", async () => {
-    mockCheckNewEmail.mockRejectedValue(new Error("IMAP connection refused"));
+    mockCheckMailbox.mockRejectedValue(new Error("IMAP connection refused"));
     const app = buildApp();
     const res = await request(app)
       .get("/api/check-email?since_uid=0")
@@ -0,0 +1,435 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync, readdirSync, realpathSync, renameSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import { getAgentsDir, parseEnvFile, readAgentKeys, readAgentSecrets, getConfigErrors, listAgentIds, KEYS_FILE, KEY_PREFIX, SECRETS_FILE } from "./config.js";
+import { generateApiKey, hashApiKey, isExpired, isHashed, formatKeyValue } from "./keys.js";
+import { encryptSecret, generateMasterKey, getMasterKey, masterKeyId, parseMasterKey } from "./secrets.js";
+import type { ApiKeyRecord } from "./types.js";
+
+// --- fagents-mcp command line ---
+//   fagents-mcp                      start the server
+//   fagents-mcp keys <command> ...   manage an agent's hashed API keys (keys.env)
+//   fagents-mcp secrets <command>    manage an agent's encrypted secrets (secrets.env)
+//   fagents-mcp config check         validate every agent's config without starting
+
+const USAGE = `Usage:
+  fagents-mcp                                                start the server
+  fagents-mcp keys generate --agent <id> [--expires <when>]  add a key (printed once)
+  fagents-mcp keys rotate --agent <id> [--grace <duration>]  add a key; existing keys expire after the grace period (default 24h)
+  fagents-mcp keys revoke --agent <id> --key <key-id>        remove a key now ("legacy" = MCP_API_KEY in email.env)
+  fagents-mcp keys list --agent <id>                         show key ids and expiry
+  fagents-mcp secrets keygen [--out <file>]                  create a master key (printed, or written to <file> with mode 0600)
+  fagents-mcp secrets encrypt (--agent <id> | --all) [--keys <A,B>]
+                                                             move *_PASS / *_PASSWORD / *_TOKEN / *_SECRET (or the given keys) from email.env into secrets.env
+  fagents-mcp secrets set --agent <id> --key <NAME>          encrypt a value read from stdin
+  fagents-mcp secrets get --agent <id> --key <NAME>          print a decrypted value
+  fagents-mcp secrets list --agent <id>                      show secret names
+  fagents-mcp secrets rekey --new-key-file <file>            re-encrypt every agent's secrets with a new master key
+  fagents-mcp config check                                   report every configuration problem, then exit
+
+<when> is an ISO date or a duration from now; durations look like 30m, 24h, 90d.
+secrets commands other than keygen need the current master key in SECRETS_KEY or SECRETS_KEY_FILE.`;
+
+const LEGACY_ID = "legacy";
+const SECRET_NAME_RE = /(_PASS|_PASSWORD|_TOKEN|_SECRET)$/;
+
+/** "90d" / "24h" / "30m" / "45s" → milliseconds */
+export function parseDuration(s: string): number {
+  const match = /^(\d+)([smhd])$/.exec(s.trim());
+  if (!match) throw new Error(`Invalid duration: ${s} (use e.g. 30m, 24h, 90d)`);
+  return Number(match[1]) * { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as "s" | "m" | "h" | "d"];
+}
+
+function parseWhen(s: string, now: number): string {
+  if (/^\d+[smhd]$/.test(s.trim())) return new Date(now + parseDuration(s)).toISOString();
+  const t = Date.parse(s);
+  if (isNaN(t)) throw new Error(`Invalid date or duration: ${s}`);
+  return new Date(t).toISOString();
+}
+
+function agentDir(agentId: string): string {
+  if (!/^[A-Za-z0-9._-]+$/.test(agentId) || agentId.startsWith(".")) throw new Error(`Invalid agent id: ${agentId}`);
+  const dir = join(getAgentsDir(), agentId);
+  if (!existsSync(join(dir, "email.env"))) throw new Error(`Unknown agent: ${agentId} (no ${join(dir, "email.env")})`);
+  return dir;
+}
+
+function writeFileAtomic(path: string, content: string): void {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, content, { mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+function writeKeys(dir: string, records: ApiKeyRecord[]): void {
+  const lines = [
+    "# Managed by `fagents-mcp keys` — salted scrypt hashes, never raw keys",
+    ...records.map(r => `${KEY_PREFIX}${r.id}=${formatKeyValue(r)}`),
+  ];
+  writeFileAtomic(join(dir, KEYS_FILE), lines.join("\n") + "\n");
+}
+
+// `names` from email.env, removed from the file (other lines kept as they are)
+function takeEnvKeys(dir: string, names: string[]): Record<string, string> {
+  const file = join(dir, "email.env");
+  const env = parseEnvFile(file);
+  const taken = Object.fromEntries(names.filter(name => env[name] !== undefined).map(name => [name, env[name]]));
+  if (Object.keys(taken).length === 0) return taken;
+  const lines = readFileSync(file, "utf-8").split("\n").filter(line => {
+    const trimmed = line.trim();
+    return !(trimmed.indexOf("=") > 0 && trimmed.slice(0, trimmed.indexOf("=")) in taken);
+  });
+  writeFileAtomic(file, lines.join("\n"));
+  return taken;
+}
+
+// MCP_API_KEY from email.env
+function readLegacyKey(dir: string): string | undefined {
+  return parseEnvFile(join(dir, "email.env")).MCP_API_KEY;
+}
+
+// Remove MCP_API_KEY from email.env — only once keys.env no longer depends on it being there
+function dropLegacyKey(dir: string): void {
+  takeEnvKeys(dir, ["MCP_API_KEY"]);
+}
+
+export function generateKey(agentId: string, options: { expires?: string } = {}): { id: string; key: string; expiresAt?: string } {
+  const dir = agentDir(agentId);
+  const records = readAgentKeys(dir);
+  let generated = generateApiKey();
+  while (records.some(r => r.id === generated.id)) generated = generateApiKey();
+  const record: ApiKeyRecord = {
+    id: generated.id,
+    hash: hashApiKey(generated.key),
+    ...(options.expires ? { expiresAt: parseWhen(options.expires, Date.now()) } : {}),
+  };
+  writeKeys(dir, [...records, record]);
+  return { id: generated.id, key: generated.key, ...(record.expiresAt ? { expiresAt: record.expiresAt } : {}) };
+}
+
+/**
+ * Add a new key and give every current key (including a plain MCP_API_KEY, which is
+ * moved to keys.env as a hash) an expiry `graceMs` from now, so clients can switch over
+ * without a window where neither key works. Already-expired keys are dropped.
+ */
+export function rotateKeys(agentId: string, graceMs = parseDuration("24h")): { id: string; key: string; retiring: ApiKeyRecord[] } {
+  const dir = agentDir(agentId);
+  const now = Date.now();
+  const until = new Date(now + graceMs).toISOString();
+  const records = readAgentKeys(dir).filter(r => !isExpired(r, now));
+
+  const legacy = readLegacyKey(dir);
+  if (legacy) {
+    const others = records.filter(r => r.id !== LEGACY_ID);
+    records.splice(0, records.length, ...others, { id: LEGACY_ID, hash: isHashed(legacy) ? legacy : hashApiKey(legacy) });
+  }
+  for (const r of records) {
+    if (!r.expiresAt || r.expiresAt > until) r.expiresAt = until;
+  }
+
+  let generated = generateApiKey();
+  while (records.some(r => r.id === generated.id)) generated = generateApiKey();
+  writeKeys(dir, [...records, { id: generated.id, hash: hashApiKey(generated.key) }]);
+  // The hash is saved in keys.env, so email.env can let go of the plain key
+  if (legacy) dropLegacyKey(dir);
+  return { id: generated.id, key: generated.key, retiring: records };
+}
+
+/** Remove a key immediately. Returns false if the agent has no such key. */
+export function revokeKey(agentId: string, keyId: string): boolean {
+  const dir = agentDir(agentId);
+  const records = readAgentKeys(dir);
+  const kept = records.filter(r => r.id !== keyId);
+  const legacy = keyId === LEGACY_ID && readLegacyKey(dir) !== undefined;
+  if (kept.length !== records.length) writeKeys(dir, kept);
+  if (legacy) dropLegacyKey(dir);
+  return legacy || kept.length !== records.length;
+}
+
+export function listKeys(agentId: string): Array<{ id: string; expiresAt?: string; expired: boolean }> {
+  const dir = agentDir(agentId);
+  const keys = readAgentKeys(dir).map(r => ({ id: r.id, ...(r.expiresAt ? { expiresAt: r.expiresAt } : {}), expired: isExpired(r) }));
+  if (parseEnvFile(join(dir, "email.env")).MCP_API_KEY !== undefined) keys.unshift({ id: LEGACY_ID, expired: false });
+  return keys;
+}
+
+// Returns the process exit code. The new key goes to stdout alone so it can be captured.
+export function runKeysCommand(argv: string[], out = console.log, err = console.error): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      agent: { type: "string" },
+      key: { type: "string" },
+      expires: { type: "string" },
+      grace: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const [command] = positionals;
+  if (!command || !values.agent) {
+    err(USAGE);
+    return 2;
+  }
+  const agentId = values.agent;
+  const keysFile = join(getAgentsDir(), agentId, KEYS_FILE);
+
+  switch (command) {
+    case "generate": {
+      const { id, key, expiresAt } = generateKey(agentId, { expires: values.expires });
+      out(key);
+      err(`Added key ${id} for ${agentId}${expiresAt ? ` (expires ${expiresAt})` : ""} to ${keysFile}. The key is not stored — save it now.`);
+      return 0;
+    }
+    case "rotate": {
+      const { id, key, retiring } = rotateKeys(agentId, values.grace ? parseDuration(values.grace) : undefined);
+      out(key);
+      err(`Added key ${id} for ${agentId} to ${keysFile}. The key is not stored — save it now.`);
+      for (const r of retiring) err(`Key ${r.id} expires ${r.expiresAt}`);
+      return 0;
+    }
+    case "revoke": {
+      if (!values.key) {
+        err("revoke needs --key <key-id> (see: fagents-mcp keys list --agent <id>)");
+        return 2;
+      }
+      if (!revokeKey(agentId, values.key)) {
+        err(`No key ${values.key} for ${agentId}`);
+        return 1;
+      }
+      err(`Revoked key ${values.key} for ${agentId}`);
+      return 0;
+    }
+    case "list": {
+      for (const k of listKeys(agentId)) out(`${k.id}\t${k.expiresAt ?? (k.id === LEGACY_ID ? "plain MCP_API_KEY in email.env" : "no expiry")}${k.expired ? "\texpired" : ""}`);
+      return 0;
+    }
+    default:
+      err(USAGE);
+      return 2;
+  }
+}
+
+// --- Encrypted secrets (secrets.env) ---
+
+function requireMasterKey(): Buffer {
+  const key = getMasterKey();
+  if (!key) throw new Error("Set SECRETS_KEY or SECRETS_KEY_FILE to the master key (create one with: fagents-mcp secrets keygen --out <file>)");
+  return key;
+}
+
+function formatSecrets(secrets: Record<string, string>, key: Buffer): string {
+  const lines = [
+    `# Managed by \`fagents-mcp secrets\` — AES-256-GCM, master key ${masterKeyId(key)}`,
+    ...Object.entries(secrets).map(([name, value]) => `${name}=${encryptSecret(name, value, key)}`),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function writeSecrets(dir: string, secrets: Record<string, string>, key: Buffer): void {
+  writeFileAtomic(join(dir, SECRETS_FILE), formatSecrets(secrets, key));
+}
+
+/**
+ * Move plain-text secrets from email.env into secrets.env: the given keys, or every key
+ * that looks like a password or token. Values that are ${VAR} references are left alone.
+ * secrets.env is written before email.env is rewritten, so a crash can't lose a value.
+ */
+export function encryptAgentEnv(agentId: string, names?: string[]): { moved: string[]; skipped: string[] } {
+  const dir = agentDir(agentId);
+  const key = requireMasterKey();
+  const env = parseEnvFile(join(dir, "email.env"));
+  for (const name of names ?? []) {
+    if (env[name] === undefined) throw new Error(`No ${name} in ${join(dir, "email.env")}`);
+  }
+  const candidates = (names ?? Object.keys(env).filter(name => SECRET_NAME_RE.test(name))).filter(name => name !== "MCP_API_KEY");
+  const skipped = candidates.filter(name => env[name].includes("${"));
+  const moved = candidates.filter(name => !skipped.includes(name));
+  if (moved.length === 0) return { moved, skipped };
+
+  const secrets = readAgentSecrets(dir, key);
+  for (const name of moved) secrets[name] = env[name];
+  writeSecrets(dir, secrets, key);
+  takeEnvKeys(dir, moved);
+  return { moved, skipped };
+}
+
+/** Encrypt `value` as secret `name`. Returns true if a plain copy was removed from email.env. */
+export function setSecret(agentId: string, name: string, value: string): boolean {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) throw new Error(`Invalid secret name: ${name}`);
+  if (name === "MCP_API_KEY") throw new Error("API keys are managed with: fagents-mcp keys");
+  const dir = agentDir(agentId);
+  const key = requireMasterKey();
+  const secrets = readAgentSecrets(dir, key);
+  secrets[name] = value;
+  writeSecrets(dir, secrets, key);
+  return takeEnvKeys(dir, [name])[name] !== undefined;
+}
+
+export function getSecret(agentId: string, name: string): string | undefined {
+  return readAgentSecrets(agentDir(agentId), requireMasterKey())[name];
+}
+
+/** Secret names, without decrypting anything. */
+export function listSecrets(agentId: string): string[] {
+  const file = join(agentDir(agentId), SECRETS_FILE);
+  return existsSync(file) ? Object.keys(parseEnvFile(file)) : [];
+}
+
+/**
+ * Re-encrypt every agent's secrets.env with `newKey`. Everything is decrypted with the
+ * current key, and every new file written to a temp file, before any secrets.env is
+ * replaced — so a wrong current key or a failed write changes nothing.
+ */
+export function rekeySecrets(newKey: Buffer): string[] {
+  const key = requireMasterKey();
+  const agentsDir = getAgentsDir();
+  const decrypted = readdirSync(agentsDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && existsSync(join(agentsDir, entry.name, SECRETS_FILE)))
+    .map(entry => [entry.name, readAgentSecrets(join(agentsDir, entry.name), key)] as const);
+  const staged: string[] = [];
+  try {
+    for (const [agentId, secrets] of decrypted) {
+      const file = join(agentsDir, agentId, SECRETS_FILE);
+      writeFileSync(`${file}.tmp`, formatSecrets(secrets, newKey), { mode: 0o600 });
+      staged.push(file);
+    }
+  } catch (error) {
+    for (const file of staged) rmSync(`${file}.tmp`, { force: true });
+    throw error;
+  }
+  for (const file of staged) renameSync(`${file}.tmp`, file);
+  return decrypted.map(([agentId]) => agentId);
+}
+
+function readStdin(): string {
+  return readFileSync(0, "utf-8").replace(/\r?\n$/, "");
+}
+
+export function runSecretsCommand(argv: string[], out = console.log, err = console.error, readValue = readStdin): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      agent: { type: "string" },
+      key: { type: "string" },
+      keys: { type: "string" },
+      all: { type: "boolean" },
+      out: { type: "string" },
+      "new-key-file": { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const [command] = positionals;
+  const agentId = values.agent;
+
+  switch (command) {
+    case "keygen": {
+      const key = generateMasterKey();
+      const id = masterKeyId(parseMasterKey(key));
+      if (!values.out) {
+        out(key);
+        err(`Master key ${id}. Keep it outside the agents directory and its backups.`);
+        return 0;
+      }
+      writeFileSync(values.out, key + "\n", { mode: 0o600, flag: "wx" });
+      err(`Wrote master key ${id} to ${values.out}. Keep it outside the agents directory and its backups.`);
+      return 0;
+    }
+    case "encrypt": {
+      if (!agentId === !values.all) break;
+      const names = values.keys?.split(",").map(s => s.trim()).filter(Boolean);
+      for (const id of agentId ? [agentId] : listAgentDirs()) {
+        const { moved, skipped } = encryptAgentEnv(id, names);
+        err(`${id}: ${moved.length ? `encrypted ${moved.join(", ")}` : "nothing to encrypt"}`);
+        for (const name of skipped) err(`${id}: left ${name} as it is (a \${VAR} reference)`);
+      }
+      return 0;
+    }
+    case "set": {
+      if (!agentId || !values.key) break;
+      if (process.stdin.isTTY) err(`Value for ${values.key}, then Ctrl-D:`);
+      const removed = setSecret(agentId, values.key, readValue());
+      err(`Set ${values.key} for ${agentId}${removed ? " (removed the plain copy from email.env)" : ""}`);
+      return 0;
+    }
+    case "get": {
+      if (!agentId || !values.key) break;
+      const value = getSecret(agentId, values.key);
+      if (value === undefined) {
+        err(`No secret ${values.key} for ${agentId}`);
+        return 1;
+      }
+      out(value);
+      return 0;
+    }
+    case "list": {
+      if (!agentId) break;
+      for (const name of listSecrets(agentId)) out(name);
+      return 0;
+    }
+    case "rekey": {
+      if (!values["new-key-file"]) break;
+      const newKey = parseMasterKey(readFileSync(values["new-key-file"], "utf-8"));
+      const agents = rekeySecrets(newKey);
+      err(`Re-encrypted secrets for ${agents.length} agent(s) with master key ${masterKeyId(newKey)}. Point SECRETS_KEY_FILE at ${values["new-key-file"]} before the next reload.`);
+      return 0;
+    }
+  }
+  err(USAGE);
+  return 2;
+}
+
+// Agent directories (those with an email.env), for --all
+function listAgentDirs(): string[] {
+  const agentsDir = getAgentsDir();
+  return readdirSync(agentsDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && existsSync(join(agentsDir, entry.name, "email.env")))
+    .map(entry => entry.name)
+    .sort();
+}
+
+// Same checks the server runs at startup. Exit code 1 if any agent has a problem.
+export function runConfigCommand(argv: string[], out = console.log, err = console.error): number {
+  if (argv[0] !== "check" || argv.length > 1) {
+    err(USAGE);
+    return 2;
+  }
+  const errors = getConfigErrors();
+  for (const e of errors) err(`${e.agent}: ${e.error}`);
+  const bad = new Set(errors.map(e => e.agent)).size;
+  out(`${listAgentIds().length} agent(s) OK${bad ? `, ${bad} with problems` : ""}`);
+  return errors.length ? 1 : 0;
+}
+
+const COMMANDS: Record<string, (argv: string[]) => number> = {
+  keys: argv => runKeysCommand(argv),
+  secrets: argv => runSecretsCommand(argv),
+  config: argv => runConfigCommand(argv),
+};
+
+async function main(argv: string[]): Promise<void> {
+  const command = COMMANDS[argv[0]];
+  if (command) {
+    try {
+      process.exitCode = command(argv.slice(1));
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+    return;
+  }
+  if (argv.length) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+  await import("./server.js");
+}
+
+// Run only when executed directly (npm links bin scripts through a symlink)
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,25 @@
+import { getEnv } from "./config.js";
+
+// --- fagents-comms channel posting (human-visible logs and notifications) ---
+
+export type PostResult = { ok: true } | { ok: false; reason: string };
+
+export async function postToChannel(channel: string, message: string): Promise<PostResult> {
+  const commsUrl = getEnv("COMMS_URL") ?? "http://127.0.0.1:9754";
+  const commsToken = getEnv("COMMS_TOKEN");
+  if (!commsToken) return { ok: false, reason: "no COMMS_TOKEN configured" };
+
+  try {
+    const resp = await fetch(`${commsUrl}/api/channels/${encodeURIComponent(channel)}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${commsToken}`,
+      },
+      body: JSON.stringify({ message }),
+    });
+    return resp.ok ? { ok: true } : { ok: false, reason: `HTTP ${resp.status}` };
+  } catch (e) {
+    return { ok: false, reason: `comms error: ${e instanceof Error ? e.message : e}` };
+  }
+}
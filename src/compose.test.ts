@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { buildReply, buildForward, parseDraft } from "./compose.js";
+import { buildRawMessage } from "./email.js";
+import type { EmailFull } from "./types.js";
+
+function original(overrides: Partial<EmailFull> = {}): EmailFull {
+  return {
+    uid: 42,
+    from: "Alice <alice@example.com>",
+    to: "coo@biz.com, Bob <bob@example.com>",
+    cc: "carol@example.com",
+    subject: "Quarterly numbers",
+    date: "2026-03-04T10:00:00.000Z",
+    flags: [],
+    messageId: "<orig@example.com>",
+    references: ["<root@example.com>"],
+    text: "Line one\nLine two",
+    attachments: [],
+    ...overrides,
+  };
+}
+
+describe("buildReply", () => {
+  it("replies to sender with threading headers and quoted body", () => {
+    const msg = buildReply(original(), { body: "Thanks!", self: ["coo@biz.com"] });
+    expect(msg.to).toBe('"Alice" <alice@example.com>');
+    expect(msg.cc).toBeUndefined();
+    expect(msg.subject).toBe("Re: Quarterly numbers");
+    expect(msg.inReplyTo).toBe("<orig@example.com>");
+    expect(msg.references).toEqual(["<root@example.com>", "<orig@example.com>"]);
+    expect(msg.body).toContain("Thanks!");
+    expect(msg.body).toContain("> Line one\n> Line two");
+  });
+
+  it("prefers Reply-To over From", () => {
+    const msg = buildReply(original({ replyTo: "list@example.com" }), { body: "x", self: [] });
+    expect(msg.to).toBe("list@example.com");
+  });
+
+  it("reply-all adds To/Cc minus the agent's own address", () => {
+    const msg = buildReply(original(), { body: "x", replyAll: true, self: ["Coo <coo@biz.com>"] });
+    expect(msg.cc).toBe('"Bob" <bob@example.com>, carol@example.com');
+  });
+
+  it("does not stack Re: prefixes", () => {
+    const msg = buildReply(original({ subject: "RE: Quarterly numbers" }), { body: "x", self: [] });
+    expect(msg.subject).toBe("RE: Quarterly numbers");
+  });
+
+  it("throws when the only recipient is the agent itself", () => {
+    expect(() => buildReply(original({ from: "coo@biz.com" }), { body: "x", self: ["coo@biz.com"] }))
+      .toThrow(/No reply recipients/);
+  });
+});
+
+describe("buildForward", () => {
+  it("builds Fwd: subject, header block and note", () => {
+    const msg = buildForward(original(), { to: "dave@example.com", note: "FYI" });
+    expect(msg.to).toBe("dave@example.com");
+    expect(msg.subject).toBe("Fwd: Quarterly numbers");
+    expect(msg.body.startsWith("FYI\n\n---------- Forwarded message ----------")).toBe(true);
+    expect(msg.body).toContain("From: Alice <alice@example.com>");
+    expect(msg.references).toEqual(["<root@example.com>", "<orig@example.com>"]);
+    expect(msg.inReplyTo).toBeUndefined();
+  });
+
+  it("passes attachments through", () => {
+    const attachments = [{ filename: "a.pdf", content: "AAAA", contentType: "application/pdf" }];
+    const msg = buildForward(original(), { to: "dave@example.com", attachments });
+    expect(msg.attachments).toEqual(attachments);
+  });
+
+  it("uses the HTML part as text for HTML-only messages", () => {
+    const html = original({ text: undefined, html: "<p>Numbers are <b>up</b></p><p>See <a href=\"https://ex.com/q\">report</a></p>" });
+    expect(buildForward(html, { to: "dave@example.com" }).body).toMatch(/Cc: carol@example.com\n\nNumbers are up\n\nSee report \(https:\/\/ex\.com\/q\)$/);
+    expect(buildReply(html, { body: "Thanks", self: [] }).body).toContain("wrote:\n> Numbers are up\n> \n> See report (https://ex.com/q)");
+  });
+});
+
+describe("parseDraft", () => {
+  const config = { host: "smtp.biz.com", port: 587, from: "coo@biz.com" };
+
+  it("round-trips a message built by buildRawMessage", async () => {
+    const raw = await buildRawMessage(config, {
+      to: "alice@example.com",
+      cc: "bob@example.com",
+      bcc: "audit@biz.com",
+      subject: "Proposal",
+      body: "Draft text",
+      attachments: [{ filename: "a.txt", content: Buffer.from("hello").toString("base64"), contentType: "text/plain" }],
+      inReplyTo: "<orig@example.com>",
+      references: ["<orig@example.com>"],
+    });
+    const msg = await parseDraft(raw);
+    expect(msg.to).toBe("alice@example.com");
+    expect(msg.cc).toBe("bob@example.com");
+    expect(msg.bcc).toBe("audit@biz.com");
+    expect(msg.subject).toBe("Proposal");
+    expect(msg.body.trim()).toBe("Draft text");
+    expect(msg.attachments).toEqual([{ filename: "a.txt", content: Buffer.from("hello").toString("base64"), contentType: "text/plain" }]);
+    expect(msg.inReplyTo).toBe("<orig@example.com>");
+    expect(msg.references).toEqual(["<orig@example.com>"]);
+  });
+
+  it("rejects drafts without a recipient", async () => {
+    await expect(parseDraft("Subject: hi\r\n\r\nbody")).rejects.toThrow(/no To/);
+  });
+});
@@ -0,0 +1,131 @@
+import addressparser from "nodemailer/lib/addressparser/index.js";
+import { simpleParser } from "mailparser";
+import type { AddressObject } from "mailparser";
+import { htmlToMarkdown } from "./render.js";
+import type { EmailFull, EmailMessage, EmailAttachment } from "./types.js";
+
+// --- Reply/forward composition (pure — no IMAP/SMTP access) ---
+
+function addressesOf(field: string | undefined): Array<{ name: string; address: string }> {
+  if (!field) return [];
+  return addressparser(field, { flatten: true }).filter(a => a.address);
+}
+
+function formatAddress(a: { name: string; address: string }): string {
+  return a.name ? `"${a.name.replace(/"/g, "")}" <${a.address}>` : a.address;
+}
+
+function prefixSubject(prefix: "Re" | "Fwd", subject: string): string {
+  const pattern = prefix === "Re" ? /^\s*re\s*:/i : /^\s*(fwd?|fw)\s*:/i;
+  return pattern.test(subject) ? subject : `${prefix}: ${subject}`;
+}
+
+// The text part, or the HTML part as plain text for HTML-only messages
+function bodyText(original: EmailFull): string {
+  return original.text ?? (original.html !== undefined ? htmlToMarkdown(original.html, { plain: true }) : "");
+}
+
+function quoteBody(original: EmailFull): string {
+  const text = bodyText(original);
+  const quoted = text.replace(/\r\n/g, "\n").split("\n").map(line => `> ${line}`).join("\n");
+  return `On ${original.date}, ${original.from} wrote:\n${quoted}`;
+}
+
+function threadHeaders(original: EmailFull): Pick<EmailMessage, "inReplyTo" | "references"> {
+  if (!original.messageId) return {};
+  return {
+    inReplyTo: original.messageId,
+    references: [...(original.references ?? []), original.messageId],
+  };
+}
+
+export interface ReplyOptions {
+  body: string;
+  replyAll?: boolean;
+  /** Addresses belonging to the sending agent — excluded from reply-all recipients */
+  self: string[];
+}
+
+export function buildReply(original: EmailFull, opts: ReplyOptions): EmailMessage {
+  const self = new Set(opts.self.flatMap(s => addressesOf(s)).map(a => a.address.toLowerCase()));
+  const seen = new Set<string>();
+  const pick = (addrs: Array<{ name: string; address: string }>) => addrs.filter(a => {
+    const key = a.address.toLowerCase();
+    if (self.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const to = pick(addressesOf(original.replyTo || original.from));
+  const cc = opts.replyAll ? pick([...addressesOf(original.to), ...addressesOf(original.cc)]) : [];
+  if (!to.length && !cc.length) {
+    throw new Error(`No reply recipients for UID ${original.uid} (original sender is this agent)`);
+  }
+
+  return {
+    to: (to.length ? to : cc.splice(0, 1)).map(formatAddress).join(", "),
+    ...(cc.length ? { cc: cc.map(formatAddress).join(", ") } : {}),
+    subject: prefixSubject("Re", original.subject),
+    body: `${opts.body}\n\n${quoteBody(original)}`,
+    ...threadHeaders(original),
+  };
+}
+
+export interface ForwardOptions {
+  to: string;
+  note?: string;
+  attachments?: EmailAttachment[];
+}
+
+export function buildForward(original: EmailFull, opts: ForwardOptions): EmailMessage {
+  const header = [
+    "---------- Forwarded message ----------",
+    `From: ${original.from}`,
+    `Date: ${original.date}`,
+    `Subject: ${original.subject}`,
+    `To: ${original.to}`,
+    original.cc ? `Cc: ${original.cc}` : null,
+  ].filter(Boolean).join("\n");
+
+  return {
+    to: opts.to,
+    subject: prefixSubject("Fwd", original.subject),
+    body: `${opts.note ? `${opts.note}\n\n` : ""}${header}\n\n${bodyText(original)}`,
+    ...(opts.attachments?.length ? { attachments: opts.attachments } : {}),
+    ...(original.messageId ? { references: threadHeaders(original).references } : {}),
+  };
+}
+
+// --- Draft parsing ---
+
+function addressText(field: AddressObject | AddressObject[] | undefined): string | undefined {
+  if (!field) return undefined;
+  return [field].flat().map(a => a.text).join(", ") || undefined;
+}
+
+/** Turn a stored draft (raw RFC 822 source) back into a sendable message. */
+export async function parseDraft(source: Buffer | string): Promise<EmailMessage> {
+  const parsed = await simpleParser(source);
+  const to = addressText(parsed.to);
+  if (!to) throw new Error("Draft has no To: recipient");
+
+  const cc = addressText(parsed.cc);
+  const bcc = addressText(parsed.bcc);
+  return {
+    to,
+    ...(cc ? { cc } : {}),
+    ...(bcc ? { bcc } : {}),
+    subject: parsed.subject ?? "",
+    body: parsed.text ?? "",
+    ...(typeof parsed.html === "string" ? { html: parsed.html } : {}),
+    ...(parsed.attachments.length ? {
+      attachments: parsed.attachments.map(a => ({
+        filename: a.filename || "attachment",
+        content: a.content.toString("base64"),
+        contentType: a.contentType,
+      })),
+    } : {}),
+    ...(parsed.inReplyTo ? { inReplyTo: parsed.inReplyTo } : {}),
+    ...(parsed.references ? { references: [parsed.references].flat() } : {}),
+  };
+}
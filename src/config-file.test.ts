@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { interpolate, readAgentsFile, validateAgentEnv } from "./config-file.js";
+
+let testDir: string;
+
+describe("config-file", () => {
+  beforeEach(() => {
+    testDir = join(tmpdir(), `fagents-config-file-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    delete process.env.AGENTS_FILE;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("interpolates ${VAR}, ${VAR:-default} and $${", () => {
+    const env = { HOST: "imap.biz.com", EMPTY: "" };
+    expect(interpolate("${HOST}:993", env)).toBe("imap.biz.com:993");
+    expect(interpolate("${EMPTY:-fallback} ${MISSING:-}", env)).toBe("fallback ");
+    expect(interpolate("p$${HOST}", env)).toBe("p${HOST}");
+    expect(interpolate("scrypt$16384$8$1$abc", env)).toBe("scrypt$16384$8$1$abc");
+    expect(() => interpolate("${MISSING}", env)).toThrow("${MISSING} is not set");
+  });
+
+  it("reads agents.yaml and coerces scalars to strings", () => {
+    process.env.AGENTS_FILE = join(testDir, "agents.yaml");
+    writeFileSync(process.env.AGENTS_FILE, [
+      "agents:",
+      "  coo:",
+      "    apiKey: key-coo",
+      "    IMAP_HOST: imap.biz.com",
+      "    IMAP_PORT: 993",
+      "    IMAP_TLS: true",
+      "shared:",
+      "  SMTP_PORT: 587",
+    ].join("\n"));
+    expect(readAgentsFile()).toEqual({
+      path: process.env.AGENTS_FILE,
+      agents: { coo: { apiKey: "key-coo", IMAP_HOST: "imap.biz.com", IMAP_PORT: "993", IMAP_TLS: "true" } },
+      shared: { SMTP_PORT: "587" },
+    });
+  });
+
+  it("rejects a malformed agents.json with the path of the problem", () => {
+    process.env.AGENTS_FILE = join(testDir, "agents.json");
+    writeFileSync(process.env.AGENTS_FILE, JSON.stringify({ agents: { coo: { IMAP_PORT: [993] } } }));
+    expect(() => readAgentsFile()).toThrow(/Invalid .*agents\.json: agents\.coo\.IMAP_PORT/);
+    writeFileSync(process.env.AGENTS_FILE, "{ not json");
+    expect(() => readAgentsFile()).toThrow(/Failed to read/);
+  });
+
+  it("reports every problem with an agent's settings", () => {
+    expect(validateAgentEnv({ IMAP_HOST: "imap.biz.com", IMAP_USER: "u", IMAP_PASS: "p", IMAP_PORT: "993" })).toEqual([]);
+    expect(validateAgentEnv({ IMAP_HOST: "", IMAP_USER: "u", IMAP_PORT: "70000", IMAP_TLS: "yes" })).toEqual([
+      "IMAP_HOST is required",
+      "IMAP_PASS is required",
+      'IMAP_PORT must be a port number from 1 to 65535 (got "70000")',
+      'IMAP_TLS must be "true" or "false" (got "yes")',
+    ]);
+  });
+});
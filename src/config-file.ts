@@ -0,0 +1,123 @@
+import { readFileSync, existsSync } from "fs";
+import { resolve, extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+// --- Structured agents file (agents.json / agents.yaml), interpolation, validation ---
+// AGENTS_FILE names the file; by default the first of agents.json, agents.yaml, agents.yml
+// in the working directory is used. Values may reference the process environment:
+//   ${VAR}  ${VAR:-default}  $${ (a literal "${")
+
+const DEFAULT_FILES = ["agents.json", "agents.yaml", "agents.yml"];
+
+// YAML turns `IMAP_PORT: 993` into a number; every config value is a string in the end
+const scalar = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+
+const agentsFileSchema = z.strictObject({
+  agents: z.record(z.string().regex(/^[A-Za-z0-9_-]+$/, "agent ids may only contain letters, digits, _ and -"), z.record(z.string(), scalar)).optional(),
+  shared: z.record(z.string(), scalar).optional(),
+});
+
+export interface AgentsFile {
+  path: string;
+  agents: Record<string, Record<string, string>>;
+  shared: Record<string, string>;
+}
+
+export function getAgentsFilePath(): string | null {
+  if (process.env.AGENTS_FILE) return resolve(process.env.AGENTS_FILE);
+  for (const name of DEFAULT_FILES) {
+    const path = resolve(process.cwd(), name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map(i => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message)).join("; ");
+}
+
+/**
+ * Read agents.json / agents.yaml. Returns null when there is none. Throws if the file
+ * can't be parsed or isn't shaped like { agents: { <id>: { KEY: value } }, shared: {...} }.
+ * Values are returned as written — interpolation happens per agent so errors can be attributed.
+ */
+export function readAgentsFile(): AgentsFile | null {
+  const path = getAgentsFilePath();
+  if (!path) return null;
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, "utf-8");
+    raw = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Failed to read ${path}: ${(error as Error).message}`);
+  }
+  const parsed = agentsFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) throw new Error(`Invalid ${path}: ${formatIssues(parsed.error)}`);
+  return { path, agents: parsed.data.agents ?? {}, shared: parsed.data.shared ?? {} };
+}
+
+const VAR_RE = /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/** Expand ${VAR} and ${VAR:-default} from `env`. Throws for an unset variable without a default. */
+export function interpolate(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(VAR_RE, (match, name: string | undefined, fallback: string | undefined) => {
+    if (match === "$${") return "${";
+    const val = env[name!];
+    if (val !== undefined && val !== "") return val;
+    if (fallback !== undefined) return fallback;
+    throw new Error(`\${${name}} is not set`);
+  });
+}
+
+/** Interpolate every value; one message per value that references an unset variable. */
+export function interpolateAll(values: Record<string, string>, issues: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    try {
+      out[key] = interpolate(value);
+    } catch (error) {
+      issues.push(`${key}: ${(error as Error).message}`);
+      out[key] = value; // keep it so validation doesn't also call it missing
+    }
+  }
+  return out;
+}
+
+// --- Agent settings schema: checked against what getEnv would resolve (agent, shared, process env) ---
+
+const required = z.string({ error: "is required" }).min(1, "is required");
+const port = z.string()
+  .refine(v => /^\d+$/.test(v) && Number(v) >= 1 && Number(v) <= 65535, "must be a port number from 1 to 65535")
+  .optional();
+const flag = z.enum(["true", "false"], { error: 'must be "true" or "false"' }).optional();
+const count = z.string().regex(/^\d+$/, "must be a whole number").optional();
+
+const agentSchema = z.looseObject({
+  IMAP_HOST: required,
+  IMAP_USER: required,
+  IMAP_PASS: required,
+  IMAP_PORT: port,
+  SMTP_PORT: port,
+  IMAP_TLS: flag,
+  SANITIZE_STRICT: flag,
+  SEND_REQUIRE_APPROVAL: flag,
+  SCOPE_UNGATED_READS: flag,
+  SEND_MAX_RECIPIENTS: count,
+  SEND_MAX_ATTACHMENT_BYTES: count,
+  SEND_RATE_PER_HOUR: count,
+  SEND_RATE_PER_DAY: count,
+  IMAP_POOL_MAX: count,
+  IMAP_POOL_IDLE_MS: count,
+});
+
+/** Problems with an agent's effective settings, e.g. "IMAP_HOST is required". Empty when valid. */
+export function validateAgentEnv(env: Record<string, string | undefined>): string[] {
+  const parsed = agentSchema.safeParse(env);
+  if (parsed.success) return [];
+  return parsed.error.issues.map(i => {
+    const key = i.path.join(".");
+    const got = env[key];
+    return `${key} ${i.message}${got ? ` (got "${got}")` : ""}`;
+  });
+}
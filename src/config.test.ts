@@ -5,6 +5,9 @@ import { tmpdir } from "os";
 
 // Each test creates a real temp .agents/ dir — no fs mocking needed
 
+const IMAP_LINES = "IMAP_HOST=imap.biz.com\nIMAP_USER=u@biz.com\nIMAP_PASS=secret\n";
+const IMAP = { IMAP_HOST: "imap.biz.com", IMAP_USER: "u@biz.com", IMAP_PASS: "secret" };
+
 let testDir: string;
 let originalAgentsDir: string | undefined;
 
@@ -38,6 +41,10 @@ describe("config", () => {
     }
     delete process.env.SMTP_HOST;
     delete process.env.MCP_PORT;
+    delete process.env.AGENTS_FILE;
+    delete process.env.COO_IMAP_PASS;
+    delete process.env.IMAP_USER;
+    delete process.env.IMAP_PASS;
     if (testDir) rmSync(testDir, { recursive: true, force: true });
   });
 
@@ -90,14 +97,14 @@ describe("config", () => {
     it("resolves valid key to agent ID", async () => {
       setupAgents();
       const mod = await import("./config.js");
-      expect(mod.resolveAgentByApiKey("key-coo-123")).toBe("coo");
-      expect(mod.resolveAgentByApiKey("key-dev-456")).toBe("dev");
+      expect(await mod.resolveAgentByApiKey("key-coo-123")).toBe("coo");
+      expect(await mod.resolveAgentByApiKey("key-dev-456")).toBe("dev");
     });
 
     it("returns null for invalid key", async () => {
       setupAgents();
       const mod = await import("./config.js");
-      expect(mod.resolveAgentByApiKey("wrong-key")).toBeNull();
+      expect(await mod.resolveAgentByApiKey("wrong-key")).toBeNull();
     });
   });
 
@@ -188,7 +195,40 @@ describe("config", () => {
     });
   });
 
+  describe("policy.env", () => {
+    it("merges SEND_* keys from policy.env into agent env", async () => {
+      setupAgents();
+      writeFileSync(join(testDir, "coo", "policy.env"), "SEND_MAX_RECIPIENTS=5\nSEND_ALLOW=biz.com\n");
+      const mod = await import("./config.js");
+      expect(mod.getAgentEnv("coo", "SEND_MAX_RECIPIENTS")).toBe("5");
+      expect(mod.getAgentEnv("coo", "SEND_ALLOW")).toBe("biz.com");
+      expect(mod.getAgentEnv("dev", "SEND_MAX_RECIPIENTS")).toBeUndefined();
+    });
+
+    it("ignores non-SEND_ keys in policy.env", async () => {
+      setupAgents();
+      writeFileSync(join(testDir, "coo", "policy.env"), "SMTP_HOST=evil.example.com\n");
+      const mod = await import("./config.js");
+      expect(mod.getAgentEnv("coo", "SMTP_HOST")).toBe("smtp.biz.com");
+    });
+  });
+
+  describe("webhooks.env", () => {
+    it("merges only WEBHOOK_* keys from webhooks.env", async () => {
+      setupAgents();
+      writeFileSync(join(testDir, "coo", "webhooks.env"), "WEBHOOK_URLS=https://hooks.biz.com/mail\nIMAP_PASS=stolen\n");
+      const mod = await import("./config.js");
+      expect(mod.getAgentEnv("coo", "WEBHOOK_URLS")).toBe("https://hooks.biz.com/mail");
+      expect(mod.getAgentEnv("coo", "IMAP_PASS")).not.toBe("stolen");
+    });
+  });
+
   describe("parseEnvFile edge cases", () => {
+    // These agents only set what each case is about; the required IMAP settings come from shared.env
+    beforeEach(() => {
+      writeFileSync(join(testDir, "shared.env"), IMAP_LINES);
+    });
+
     it("ignores comments and blank lines", async () => {
       writeEmailEnv("edgecase", {
         MCP_API_KEY: "key-edge-789",
@@ -197,7 +237,7 @@ describe("config", () => {
       const filePath = join(testDir, "edgecase", "email.env");
       writeFileSync(filePath, "# This is a comment\n\nMCP_API_KEY=key-edge-789\nSMTP_HOST=test.com\n");
       const mod = await import("./config.js");
-      expect(mod.resolveAgentByApiKey("key-edge-789")).toBe("edgecase");
+      expect(await mod.resolveAgentByApiKey("key-edge-789")).toBe("edgecase");
       expect(mod.getAgentEnv("edgecase", "SMTP_HOST")).toBe("test.com");
     });
 
@@ -214,9 +254,105 @@ describe("config", () => {
       mkdirSync(filePath, { recursive: true });
       writeFileSync(join(filePath, "email.env"), 'MCP_API_KEY="key-quoted-111"\nSMTP_PASS=\'secret\'\nSMTP_HOST=unquoted\n');
       const mod = await import("./config.js");
-      expect(mod.resolveAgentByApiKey("key-quoted-111")).toBe("quoted");
+      expect(await mod.resolveAgentByApiKey("key-quoted-111")).toBe("quoted");
       expect(mod.getAgentEnv("quoted", "SMTP_PASS")).toBe("secret");
       expect(mod.getAgentEnv("quoted", "SMTP_HOST")).toBe("unquoted");
     });
   });
+
+  describe("reloadAgentsConfig", () => {
+    it("picks up added agents and changed credentials", async () => {
+      setupAgents();
+      const mod = await import("./config.js");
+      expect(mod.listAgentIds().sort()).toEqual(["coo", "dev"]);
+
+      writeEmailEnv("cfo", { MCP_API_KEY: "key-cfo-789", ...IMAP });
+      writeEmailEnv("dev", { MCP_API_KEY: "key-dev-456", SMTP_HOST: "smtp.biz.com", ...IMAP, IMAP_PASS: "rotated" });
+      const result = mod.reloadAgentsConfig();
+      expect(result).toMatchObject({ added: ["cfo"], removed: [], changed: ["dev"], errors: [] });
+      expect(await mod.resolveAgentByApiKey("key-cfo-789")).toBe("cfo");
+      expect(mod.getAgentEnv("dev", "IMAP_PASS")).toBe("rotated");
+    });
+
+    it("keeps the previous config for an agent whose files became invalid", async () => {
+      setupAgents();
+      const mod = await import("./config.js");
+      expect(mod.getAgentEnv("coo", "IMAP_PORT")).toBe("993");
+      writeFileSync(join(testDir, "coo", "email.env"), "MCP_API_KEY=key-coo-123\nIMAP_PORT=99x3\n" + IMAP_LINES);
+      writeFileSync(join(testDir, "dev", "policy.env"), "SEND_ALLOW biz.com\n");
+      const result = mod.reloadAgentsConfig();
+      expect(result.errors.sort((a, b) => a.agent.localeCompare(b.agent))).toEqual([
+        { agent: "coo", error: 'IMAP_PORT must be a port number from 1 to 65535 (got "99x3")' },
+        { agent: "dev", error: `${join(testDir, "dev", "policy.env")}:1: expected KEY=value` },
+      ]);
+      expect(result.changed).toEqual([]);
+      expect(mod.getAgentEnv("coo", "IMAP_PORT")).toBe("993");
+      expect(await mod.resolveAgentByApiKey("key-dev-456")).toBe("dev");
+    });
+
+    it("lets requests already running finish with the config they started with", async () => {
+      setupAgents();
+      const mod = await import("./config.js");
+      await mod.runWithAgent("coo", async () => {
+        writeEmailEnv("coo", { MCP_API_KEY: "key-coo-123", SMTP_HOST: "smtp.new.com", ...IMAP });
+        mod.reloadAgentsConfig();
+        await Promise.resolve();
+        expect(mod.getEnv("SMTP_HOST")).toBe("smtp.biz.com");
+      });
+      expect(mod.runWithAgent("coo", () => mod.getEnv("SMTP_HOST"))).toBe("smtp.new.com");
+    });
+  });
+
+  describe("agents file, shared.env and validation", () => {
+    it("loads agents.json alongside .agents/, with shared.env defaults and interpolation", async () => {
+      setupAgents();
+      process.env.AGENTS_FILE = join(testDir, "agents.json");
+      process.env.COO_IMAP_PASS = "from-env";
+      writeFileSync(process.env.AGENTS_FILE, JSON.stringify({
+        agents: { cfo: { apiKey: "key-cfo-789", IMAP_HOST: "imap.cfo.com", IMAP_USER: "cfo", IMAP_PASS: "${COO_IMAP_PASS}" } },
+        shared: { SMTP_PORT: "465" },
+      }));
+      writeFileSync(join(testDir, "shared.env"), "SMTP_HOST=smtp.shared.com\nSMTP_PORT=2525\n");
+      const mod = await import("./config.js");
+      expect(mod.getConfigErrors()).toEqual([]);
+      expect(mod.listAgentIds().sort()).toEqual(["cfo", "coo", "dev"]);
+      expect(await mod.resolveAgentByApiKey("key-cfo-789")).toBe("cfo");
+      expect(mod.runWithAgent("cfo", () => [mod.getEnv("IMAP_PASS"), mod.getEnv("SMTP_HOST"), mod.getEnv("SMTP_PORT")])).toEqual(["from-env", "smtp.shared.com", "2525"]);
+      expect(mod.runWithAgent("coo", () => mod.getEnv("SMTP_PORT"))).toBe("587");
+    });
+
+    it("requires IMAP settings from email.env, shared.env or the environment", async () => {
+      mkdirSync(join(testDir, "smtponly"), { recursive: true });
+      writeFileSync(join(testDir, "smtponly", "email.env"), "MCP_API_KEY=key-smtp-000\nSMTP_HOST=test.com\n");
+      const mod = await import("./config.js");
+      expect(mod.getConfigErrors()).toEqual([
+        { agent: "smtponly", error: "IMAP_HOST is required" },
+        { agent: "smtponly", error: "IMAP_USER is required" },
+        { agent: "smtponly", error: "IMAP_PASS is required" },
+      ]);
+      expect(await mod.resolveAgentByApiKey("key-smtp-000")).toBeNull();
+
+      writeFileSync(join(testDir, "shared.env"), "IMAP_HOST=imap.biz.com\n");
+      process.env.IMAP_USER = "from-env";
+      process.env.IMAP_PASS = "from-env";
+      expect(mod.reloadAgentsConfig()).toMatchObject({ added: ["smtponly"], errors: [] });
+      expect(await mod.resolveAgentByApiKey("key-smtp-000")).toBe("smtponly");
+    });
+
+    it("reports every misconfigured agent in one pass and loads the rest", async () => {
+      setupAgents();
+      writeEmailEnv("cfo", { MCP_API_KEY: "key-cfo-789", IMAP_HOST: "imap.biz.com", IMAP_USER: "cfo", IMAP_PASS: "${COO_IMAP_PASS}" });
+      writeEmailEnv("ops", { MCP_API_KEY: "key-dev-456", ...IMAP, SMTP_PORT: "smtp" });
+      writeEmailEnv("hr", { MCP_API_KEY: "key-hr-000", IMAP_USER: "hr", IMAP_PASS: "x" });
+      const mod = await import("./config.js");
+      expect(mod.getConfigErrors().sort((a, b) => a.agent.localeCompare(b.agent) || a.error.localeCompare(b.error))).toEqual([
+        { agent: "cfo", error: "IMAP_PASS: ${COO_IMAP_PASS} is not set" },
+        { agent: "dev", error: "API key is also used by ops" },
+        { agent: "hr", error: "IMAP_HOST is required" },
+        { agent: "ops", error: "API key is also used by dev" },
+        { agent: "ops", error: 'SMTP_PORT must be a port number from 1 to 65535 (got "smtp")' },
+      ]);
+      expect(mod.listAgentIds()).toEqual(["coo"]);
+    });
+  });
 });
@@ -1,15 +1,19 @@
-import { readFileSync, readdirSync, existsSync } from "fs";
+import { readFileSync, readdirSync, existsSync, watch, watchFile, unwatchFile } from "fs";
 import { resolve, join } from "path";
-import { timingSafeEqual } from "crypto";
 import { AsyncLocalStorage } from "async_hooks";
-import type { AgentsConfig, AgentConfig } from "./types.js";
+import { keyIdOf, isExpired, isWellFormedKey, parseKeyValue, verifyApiKey } from "./keys.js";
+import { getMasterKey, decryptSecret } from "./secrets.js";
+import { readAgentsFile, getAgentsFilePath, interpolateAll, validateAgentEnv } from "./config-file.js";
+import type { AgentsConfig, AgentConfig, ApiKeyRecord } from "./types.js";
 
 // --- Agent context (AsyncLocalStorage) ---
 
-const storage = new AsyncLocalStorage<{ agentId: string }>();
+// The agents config is captured when the context starts, so a reload mid-request
+// doesn't change the credentials a request is already using
+const storage = new AsyncLocalStorage<{ agentId: string; config: AgentsConfig }>();
 
 export function runWithAgent<T>(agentId: string, fn: () => T): T {
-  return storage.run({ agentId }, fn);
+  return storage.run({ agentId, config: loadAgentsConfig() }, fn);
 }
 
 export function getCurrentAgentId(): string | undefined {
@@ -20,7 +24,7 @@ export function getCurrentAgentId(): string | undefined {
 
 let agentsConfig: AgentsConfig | null = null;
 
-function parseEnvFile(filePath: string): Record<string, string> {
+export function parseEnvFile(filePath: string): Record<string, string> {
   const env: Record<string, string> = {};
   const lines = readFileSync(filePath, "utf-8").split("\n");
   for (const line of lines) {
@@ -39,54 +43,298 @@ function parseEnvFile(filePath: string): Record<string, string> {
   return env;
 }
 
-function loadAgentsConfig(): AgentsConfig {
-  if (agentsConfig) return agentsConfig;
+const SIDE_FILES: Array<[file: string, prefix: string]> = [
+  ["policy.env", "SEND_"],
+  ["webhooks.env", "WEBHOOK_"],
+  ["scopes.env", "SCOPE_"],
+];
 
-  // Read per-agent email.env files from .agents/ directory
-  const agentsDir = process.env.AGENTS_DIR || resolve(process.cwd(), "../.agents");
-  const agents: Record<string, AgentConfig> = {};
+export const KEYS_FILE = "keys.env";
+export const KEY_PREFIX = "MCP_KEY_";
+
+export function getAgentsDir(): string {
+  return process.env.AGENTS_DIR || resolve(process.cwd(), "../.agents");
+}
+
+/** Hashed API keys from an agent's keys.env (MCP_KEY_<id>=<hash> [expires=<iso>]). */
+export function readAgentKeys(agentDir: string): ApiKeyRecord[] {
+  const file = join(agentDir, KEYS_FILE);
+  if (!existsSync(file)) return [];
+  return Object.entries(parseEnvFile(file))
+    .filter(([key]) => key.startsWith(KEY_PREFIX))
+    .map(([key, value]) => parseKeyValue(key.slice(KEY_PREFIX.length), value));
+}
+
+export const SECRETS_FILE = "secrets.env";
+
+/**
+ * Decrypted values from an agent's secrets.env (KEY=enc:v1:…), or {} when it has none.
+ * Throws if there is no master key or a value doesn't decrypt. Plain values are only held in memory.
+ */
+export function readAgentSecrets(agentDir: string, key = getMasterKey()): Record<string, string> {
+  const file = join(agentDir, SECRETS_FILE);
+  if (!existsSync(file)) return {};
+  if (!key) throw new Error(`${file}: encrypted secrets need SECRETS_KEY or SECRETS_KEY_FILE`);
+  checkEnvFile(file);
+  const secrets: Record<string, string> = {};
+  for (const [name, stored] of Object.entries(parseEnvFile(file))) {
+    try {
+      secrets[name] = decryptSecret(name, stored, key);
+    } catch (error) {
+      throw new Error(`${file}: ${(error as Error).message}`);
+    }
+  }
+  return secrets;
+}
+
+export interface ConfigError {
+  agent: string;
+  error: string;
+}
+
+export interface ReloadResult {
+  agents: string[];
+  added: string[];
+  removed: string[];
+  changed: string[];
+  /** Agents that failed to load; an agent that was already loaded keeps its previous config */
+  errors: ConfigError[];
+}
+
+let loadErrors: ConfigError[] = [];
+
+export const SHARED_FILE = "shared.env";
+
+// Lines that aren't KEY=value would otherwise be dropped silently
+function checkEnvFile(filePath: string): void {
+  readFileSync(filePath, "utf-8").split("\n").forEach((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith("#") && trimmed.indexOf("=") < 1) {
+      throw new Error(`${filePath}:${i + 1}: expected KEY=value`);
+    }
+  });
+}
+
+interface LoadedAgent {
+  agent: AgentConfig;
+  keys: ApiKeyRecord[];
+  issues: string[];
+  /** Files couldn't be read, so there's nothing to validate */
+  unreadable?: boolean;
+}
+
+// .agents/<id>/email.env plus secrets.env, its side files and keys.env
+function readAgentDir(agentDir: string): LoadedAgent {
+  const issues: string[] = [];
+  const emailFile = join(agentDir, "email.env");
+  checkEnvFile(emailFile);
+  const env = interpolateAll(parseEnvFile(emailFile), issues);
+  const apiKey = env.MCP_API_KEY || "";
+  delete env.MCP_API_KEY;
+
+  // Decrypted values aren't interpolated: a password may well contain "${"
+  for (const [key, value] of Object.entries(readAgentSecrets(agentDir))) {
+    if (key in env) issues.push(`${key} is in both email.env and ${SECRETS_FILE} — remove the plain copy from email.env`);
+    env[key] = value;
+  }
+
+  // Optional side files alongside email.env — each limited to its own key prefix,
+  // so they can't override credentials
+  for (const [file, prefix] of SIDE_FILES) {
+    const sideFile = join(agentDir, file);
+    if (!existsSync(sideFile)) continue;
+    checkEnvFile(sideFile);
+    const side = Object.fromEntries(Object.entries(parseEnvFile(sideFile)).filter(([key]) => key.startsWith(prefix)));
+    Object.assign(env, interpolateAll(side, issues));
+  }
+
+  const keys = readAgentKeys(agentDir);
+  for (const record of keys) {
+    if (record.expiresAt !== undefined && isNaN(Date.parse(record.expiresAt))) {
+      issues.push(`${KEYS_FILE}: invalid expiry for key ${record.id}: ${record.expiresAt}`);
+    }
+  }
+  return { agent: { apiKey, ...env }, keys, issues };
+}
+
+// An agents.json / agents.yaml entry: apiKey (or MCP_API_KEY) plus env keys
+function readAgentEntry(entry: Record<string, string>): LoadedAgent {
+  const issues: string[] = [];
+  const { apiKey, MCP_API_KEY, ...env } = interpolateAll(entry, issues);
+  return { agent: { apiKey: apiKey || MCP_API_KEY || "", ...env }, keys: [], issues };
+}
+
+/**
+ * Read agents.json / agents.yaml, the .agents/ directory and shared.env into a new config,
+ * validating every agent in one pass. An agent with problems is reported (one entry per
+ * problem) and keeps its entry from `previous` if it had one; it is never half-loaded.
+ * Throws if the agents file or directory can't be read at all.
+ */
+function readAgentsConfig(previous: AgentsConfig | null): { config: AgentsConfig; errors: ConfigError[] } {
+  const agentsDir = getAgentsDir();
+  const file = readAgentsFile();
+  const loaded: Record<string, LoadedAgent> = {};
+  const errors: ConfigError[] = [];
+
+  for (const [id, entry] of Object.entries(file?.agents ?? {})) loaded[id] = readAgentEntry(entry);
 
+  const sharedIssues: string[] = [];
+  const shared = interpolateAll(file?.shared ?? {}, sharedIssues);
   try {
-    const entries = readdirSync(agentsDir, { withFileTypes: true });
-    for (const entry of entries) {
+    const sharedFile = join(agentsDir, SHARED_FILE);
+    if (existsSync(sharedFile)) {
+      checkEnvFile(sharedFile);
+      Object.assign(shared, interpolateAll(parseEnvFile(sharedFile), sharedIssues));
+    }
+    for (const entry of readdirSync(agentsDir, { withFileTypes: true })) {
       if (!entry.isDirectory()) continue;
-      const emailFile = join(agentsDir, entry.name, "email.env");
-      if (!existsSync(emailFile)) continue;
-
-      const env = parseEnvFile(emailFile);
-      const apiKey = env.MCP_API_KEY || "";
-      delete env.MCP_API_KEY;
-      agents[entry.name] = { apiKey, ...env };
+      if (!existsSync(join(agentsDir, entry.name, "email.env"))) continue;
+      if (loaded[entry.name]) {
+        loaded[entry.name].issues.push(`defined in both ${file!.path} and ${join(agentsDir, entry.name)}`);
+        continue;
+      }
+      try {
+        loaded[entry.name] = readAgentDir(join(agentsDir, entry.name));
+      } catch (error) {
+        loaded[entry.name] = { agent: { apiKey: "" }, keys: [], issues: [error instanceof Error ? error.message : String(error)], unreadable: true };
+      }
     }
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
       throw new Error(`Failed to read agents dir ${agentsDir}: ${(error as Error).message}`);
     }
   }
+  // shared values are defaults for every agent, so a bad one is a problem for the whole config
+  if (sharedIssues.length) throw new Error(`Invalid shared config: ${sharedIssues.join("; ")}`);
 
-  agentsConfig = { agents, shared: {} };
+  // Settings are checked the way getEnv resolves them: agent, then shared, then process env
+  const owners = new Map<string, string[]>();
+  for (const [id, { agent, issues, unreadable }] of Object.entries(loaded)) {
+    if (unreadable) continue;
+    const { apiKey, ...env } = agent;
+    issues.push(...validateAgentEnv({ ...process.env, ...shared, ...env }));
+    if (apiKey) owners.set(apiKey, [...(owners.get(apiKey) ?? []), id]);
+  }
+  for (const ids of owners.values()) {
+    if (ids.length < 2) continue;
+    for (const id of ids) loaded[id].issues.push(`API key is also used by ${ids.filter(other => other !== id).join(", ")}`);
+  }
+
+  const agents: Record<string, AgentConfig> = {};
+  const keys: Record<string, ApiKeyRecord[]> = {};
+  for (const [id, { agent, keys: records, issues }] of Object.entries(loaded)) {
+    if (issues.length === 0) {
+      agents[id] = agent;
+      keys[id] = records;
+      continue;
+    }
+    for (const issue of issues) errors.push({ agent: id, error: issue });
+    const kept = previous?.agents[id];
+    if (kept) {
+      agents[id] = kept;
+      keys[id] = previous?.keys?.[id] ?? [];
+    }
+  }
+
+  return { config: { agents, shared, keys }, errors };
+}
+
+function loadAgentsConfig(): AgentsConfig {
+  if (agentsConfig) return agentsConfig;
+  const { config, errors } = readAgentsConfig(null);
+  loadErrors = errors;
+  agentsConfig = config;
   return agentsConfig;
 }
 
+/** Problems found by the last load or reload, one entry per problem. Throws if the config can't be read at all. */
+export function getConfigErrors(): ConfigError[] {
+  loadAgentsConfig();
+  return loadErrors;
+}
+
+/**
+ * Re-read the agents file and directory and swap the new config in as one assignment. Requests
+ * already running keep the config they started with (see runWithAgent). Throws, leaving
+ * the current config in place, if the agents file or directory can't be read.
+ */
+export function reloadAgentsConfig(): ReloadResult {
+  const previous = loadAgentsConfig();
+  const { config, errors } = readAgentsConfig(previous);
+  const snapshot = (c: AgentsConfig, id: string) => JSON.stringify([c.agents[id], c.keys?.[id], c.shared]);
+  const before = Object.keys(previous.agents);
+  const after = Object.keys(config.agents);
+
+  agentsConfig = config;
+  loadErrors = errors;
+  return {
+    agents: after,
+    added: after.filter(id => !(id in previous.agents)),
+    removed: before.filter(id => !(id in config.agents)),
+    changed: after.filter(id => id in previous.agents && snapshot(previous, id) !== snapshot(config, id)),
+    errors,
+  };
+}
+
+/**
+ * Call `onChange` (debounced) whenever anything under AGENTS_DIR or the agents file
+ * changes. Returns a function that stops watching.
+ */
+export function watchAgentsConfig(onChange: () => void, debounceMs = 500): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  const changed = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onChange, debounceMs);
+  };
+  const agentsDir = getAgentsDir();
+  const watcher = existsSync(agentsDir) ? watch(agentsDir, { recursive: true }, changed) : undefined;
+  watcher?.unref();
+  // Polled rather than fs.watch: editors often replace the file, which ends an fs.watch
+  const agentsFile = getAgentsFilePath();
+  if (agentsFile) watchFile(agentsFile, { interval: 2000, persistent: false }, changed);
+  return () => {
+    clearTimeout(timer);
+    watcher?.close();
+    if (agentsFile) unwatchFile(agentsFile, changed);
+  };
+}
+
 export function hasAgents(): boolean {
   return Object.keys(loadAgentsConfig().agents).length > 0;
 }
 
-export function resolveAgentByApiKey(apiKey: string): string | null {
+export function listAgentIds(): string[] {
+  return Object.keys(loadAgentsConfig().agents);
+}
+
+// A generated key names its record by id, and only that record's hash is checked. Other
+// keys are checked against MCP_API_KEY (plain or hashed) and keys.env records without a
+// generated id (e.g. a migrated legacy key). Malformed keys are rejected without any scrypt.
+export async function resolveAgentByApiKey(apiKey: string): Promise<string | null> {
+  if (!isWellFormedKey(apiKey)) return null;
   const config = loadAgentsConfig();
-  const keyBuf = Buffer.from(apiKey);
+  const id = keyIdOf(apiKey);
+
+  if (id) {
+    for (const agentId of Object.keys(config.agents)) {
+      const record = config.keys?.[agentId]?.find(r => r.id === id && !isExpired(r));
+      if (record) return (await verifyApiKey(apiKey, record.hash)) ? agentId : null;
+    }
+    return null;
+  }
 
   for (const [agentId, agentConfig] of Object.entries(config.agents)) {
-    const storedBuf = Buffer.from(agentConfig.apiKey);
-    if (keyBuf.length === storedBuf.length && timingSafeEqual(keyBuf, storedBuf)) {
-      return agentId;
+    if (await verifyApiKey(apiKey, agentConfig.apiKey)) return agentId;
+    const records = (config.keys?.[agentId] ?? []).filter(r => !isExpired(r));
+    for (const record of records) {
+      if (!/^[0-9a-f]{8}$/.test(record.id) && (await verifyApiKey(apiKey, record.hash))) return agentId;
     }
   }
   return null;
 }
 
 export function getAgentEnv(agentId: string, key: string): string | undefined {
-  const config = loadAgentsConfig();
+  const config = storage.getStore()?.config ?? loadAgentsConfig();
   const agent = config.agents[agentId];
   if (agent && key in agent && key !== "apiKey") {
     return agent[key];
@@ -128,7 +376,8 @@ export function getServerConfig() {
   }
   const host = getEnv("MCP_HOST") ?? "127.0.0.1";
   const apiKey = getEnv("MCP_API_KEY");
-  return { port, host, apiKey };
+  const stateful = getEnv("MCP_STATEFUL") === "true";
+  return { port, host, apiKey, stateful };
 }
 
 // --- Email/IMAP config helpers ---
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { encodeCursor, decodeCursor, resolvePositions } from "./cursor.js";
+
+describe("cursor", () => {
+  it("round-trips mailbox positions through an opaque token", () => {
+    const positions = [
+      { mailbox: "INBOX", uidValidity: "1700000000", lastUid: 42 },
+      { mailbox: "Support/Ünïcode", uidValidity: "7", lastUid: 0 },
+    ];
+    const cursor = encodeCursor(positions);
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual(positions);
+  });
+
+  it("rejects malformed or tampered cursors", () => {
+    expect(() => decodeCursor("not-a-cursor")).toThrow("Invalid cursor");
+    const tampered = Buffer.from(JSON.stringify({ v: 1, boxes: [{ m: "INBOX", uv: "1", u: -5 }] })).toString("base64url");
+    expect(() => decodeCursor(tampered)).toThrow("Invalid cursor");
+    const wrongVersion = Buffer.from(JSON.stringify({ v: 2, boxes: [] })).toString("base64url");
+    expect(() => decodeCursor(wrongVersion)).toThrow("Invalid cursor");
+  });
+
+  it("defaults to INBOX from since_uid without a cursor", () => {
+    expect(resolvePositions({})).toEqual([{ mailbox: "INBOX", lastUid: 0 }]);
+    expect(resolvePositions({ sinceUid: 9 })).toEqual([{ mailbox: "INBOX", lastUid: 9 }]);
+  });
+
+  it("adds requested mailboxes to the ones already in the cursor", () => {
+    const cursor = encodeCursor([{ mailbox: "INBOX", uidValidity: "1", lastUid: 10 }]);
+    expect(resolvePositions({ cursor })).toEqual([{ mailbox: "INBOX", uidValidity: "1", lastUid: 10 }]);
+    expect(resolvePositions({ cursor, mailboxes: ["INBOX", "Support"] })).toEqual([
+      { mailbox: "INBOX", uidValidity: "1", lastUid: 10 },
+      { mailbox: "Support", lastUid: 0 },
+    ]);
+  });
+});
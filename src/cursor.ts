@@ -0,0 +1,49 @@
+// --- check-email cursor: opaque base64url token of per-mailbox UIDVALIDITY + last UID ---
+// Clients pass back the cursor from the previous response; the server compares UIDVALIDITY
+// so a mailbox rebuild is reported instead of silently skipping or replaying mail.
+
+export interface MailboxPosition {
+  mailbox: string;
+  /** Unknown until the mailbox has been checked once */
+  uidValidity?: string;
+  lastUid: number;
+}
+
+interface CursorPayload {
+  v: 1;
+  boxes: Array<{ m: string; uv: string; u: number }>;
+}
+
+export function encodeCursor(positions: Array<Required<MailboxPosition>>): string {
+  const payload: CursorPayload = { v: 1, boxes: positions.map(p => ({ m: p.mailbox, uv: p.uidValidity, u: p.lastUid })) };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): Array<Required<MailboxPosition>> {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (payload?.v !== 1 || !Array.isArray(payload.boxes)) throw new Error("Invalid cursor");
+  return payload.boxes.map(b => {
+    if (typeof b?.m !== "string" || !b.m || typeof b.uv !== "string" || !/^\d+$/.test(b.uv) || !Number.isInteger(b.u) || b.u < 0) {
+      throw new Error("Invalid cursor");
+    }
+    return { mailbox: b.m, uidValidity: b.uv, lastUid: b.u };
+  });
+}
+
+/**
+ * Mailboxes to check: every mailbox in the cursor plus any extra requested ones.
+ * Mailboxes not in the cursor start after `sinceUid` (default 0); with neither, INBOX.
+ */
+export function resolvePositions(opts: { cursor?: string; mailboxes?: string[]; sinceUid?: number }): MailboxPosition[] {
+  const positions: MailboxPosition[] = opts.cursor ? decodeCursor(opts.cursor) : [];
+  const requested = opts.mailboxes?.length ? opts.mailboxes : positions.length ? [] : ["INBOX"];
+  for (const mailbox of requested) {
+    if (!positions.some(p => p.mailbox === mailbox)) positions.push({ mailbox, lastUid: opts.sinceUid ?? 0 });
+  }
+  return positions;
+}
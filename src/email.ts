@@ -24,6 +24,9 @@ function mailOptions(config: EmailConfig, message: EmailMessage) {
     subject: message.subject,
     text: message.body,
     ...(message.html ? { html: message.html } : {}),
+    ...(message.messageId ? { messageId: message.messageId } : {}),
+    ...(message.inReplyTo ? { inReplyTo: message.inReplyTo } : {}),
+    ...(message.references?.length ? { references: message.references } : {}),
     ...(message.attachments?.length ? {
       attachments: message.attachments.map(a => ({
         filename: a.filename,
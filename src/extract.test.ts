@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import { detectType, extractText, UnsupportedTypeError } from "./extract.js";
+
+// Minimal PDF: one page per string, Helvetica text, valid xref
+function pdf(pages: string[]): Buffer {
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  let out = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(o => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+function zip(files: Record<string, string>): Buffer {
+  return Buffer.from(zipSync(Object.fromEntries(Object.entries(files).map(([name, xml]) => [name, strToU8(xml)]))));
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+describe("extract", () => {
+  it("extracts PDF text with page boundaries", async () => {
+    const result = await extractText(pdf(["Invoice 42", "Total due"]), "application/pdf");
+    expect(result.pages).toBe(2);
+    expect(result.text).toBe("--- page 1 of 2 ---\nInvoice 42\n\n--- page 2 of 2 ---\nTotal due");
+  });
+
+  it("extracts DOCX paragraphs, tables and page breaks", async () => {
+    const docx = zip({
+      "word/document.xml": `<w:document ${W}><w:body>` +
+        "<w:p><w:r><w:t>Hello </w:t></w:r><w:r><w:t>world</w:t></w:r></w:p>" +
+        "<w:tbl><w:tr><w:tc><w:p><w:r><w:t>A1</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>B1</w:t></w:r></w:p></w:tc></w:tr></w:tbl>" +
+        '<w:p><w:r><w:br w:type="page"/><w:t>Page two &amp; more</w:t></w:r></w:p>' +
+        "</w:body></w:document>",
+    });
+    const result = await extractText(docx, "application/octet-stream", { filename: "memo.docx" });
+    expect(result.type).toBe("docx");
+    expect(result.text).toBe("Hello world\nA1\tB1\n\n--- page break ---\nPage two & more");
+  });
+
+  it("extracts XLSX sheets as CSV with sheet boundaries", async () => {
+    const xlsx = zip({
+      "xl/workbook.xml": '<workbook xmlns:r="r"><sheets><sheet name="Q1" sheetId="1" r:id="rId1"/><sheet name="Notes" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+      "xl/sharedStrings.xml": "<sst><si><t>Item</t></si><si><r><t>Widget, </t></r><r><t>large</t></r></si></sst>",
+      "xl/worksheets/sheet1.xml": '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1"><v>3.5</v></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2" t="b"><v>1</v></c><c r="C2"><f>SUM(1)</f><v>1</v></c></row></sheetData></worksheet>',
+      "xl/worksheets/sheet2.xml": '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>ok</t></is></c></row></sheetData></worksheet>',
+    });
+    const result = await extractText(xlsx, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect(result.sheets).toEqual(["Q1", "Notes"]);
+    expect(result.text).toBe('--- sheet: Q1 ---\nItem,,3.5\n"Widget, large",TRUE,1\n\n--- sheet: Notes ---\nok');
+  });
+
+  it("extracts .eml headers and body", async () => {
+    const eml = Buffer.from("From: Alice <a@example.com>\r\nTo: b@example.com\r\nSubject: Fwd\r\nDate: Tue, 3 Mar 2026 10:00:00 +0000\r\n\r\nInner body\r\n");
+    const result = await extractText(eml, "message/rfc822");
+    expect(result.text).toBe('From: "Alice" <a@example.com>\nTo: b@example.com\nDate: 2026-03-03T10:00:00.000Z\nSubject: Fwd\n\nInner body');
+  });
+
+  it("decodes text by charset and rejects unsupported types", async () => {
+    expect((await extractText(Buffer.from([0x63, 0x61, 0x66, 0xe9]), "text/plain", { charset: "iso-8859-1" })).text).toBe("café");
+    expect(detectType("application/octet-stream", "data.csv")).toBe("csv");
+    expect(detectType("application/octet-stream", undefined, pdf(["x"]))).toBe("pdf");
+    await expect(extractText(Buffer.from([0, 1, 2]), "image/png", { filename: "logo.png" })).rejects.toBeInstanceOf(UnsupportedTypeError);
+  });
+});
@@ -0,0 +1,259 @@
+import { extname } from "path";
+import { unzipSync } from "fflate";
+import { Parser } from "htmlparser2";
+import { simpleParser } from "mailparser";
+import { extractText as extractPdfText } from "unpdf";
+import { htmlToMarkdown } from "./render.js";
+
+// --- Attachment text extraction (local only — no external services) ---
+// PDF pages and spreadsheet sheets are separated by "--- page N of M ---" /
+// "--- sheet: Name ---" lines so a reader can tell where each one starts.
+
+export type ExtractType = "pdf" | "docx" | "xlsx" | "csv" | "text" | "html" | "eml";
+
+export interface ExtractedText {
+  type: ExtractType;
+  text: string;
+  /** PDF page count */
+  pages?: number;
+  /** XLSX sheet names, in workbook order */
+  sheets?: string[];
+}
+
+export class UnsupportedTypeError extends Error {
+  constructor(public contentType: string, public filename?: string) {
+    super(`Unsupported attachment type: ${contentType}${filename ? ` (${filename})` : ""}. Supported: PDF, DOCX, XLSX, CSV, plain text, HTML, .eml`);
+    this.name = "UnsupportedTypeError";
+  }
+
+  toJSON() {
+    return { error: this.message, code: "unsupported_type", contentType: this.contentType };
+  }
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+// Office files are zips — cap what they may inflate to
+const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024;
+
+/** Largest attachment extract_attachment_text will download (EXTRACT_MAX_BYTES, default 10 MB). */
+export function extractMaxBytes(): number {
+  const n = parseInt(process.env.EXTRACT_MAX_BYTES ?? "", 10);
+  return isNaN(n) || n <= 0 ? DEFAULT_MAX_BYTES : n;
+}
+
+const BY_CONTENT_TYPE: Record<string, ExtractType> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "text/csv": "csv",
+  "application/csv": "csv",
+  "text/tab-separated-values": "csv",
+  "text/html": "html",
+  "message/rfc822": "eml",
+  "application/json": "text",
+  "application/xml": "text",
+};
+
+const BY_EXTENSION: Record<string, ExtractType> = {
+  ".pdf": "pdf", ".docx": "docx", ".xlsx": "xlsx", ".csv": "csv", ".tsv": "csv", ".eml": "eml",
+  ".html": "html", ".htm": "html", ".txt": "text", ".md": "text", ".log": "text", ".json": "text", ".xml": "text",
+};
+
+/** Decide how to extract: content type first, then file extension, then magic bytes. */
+export function detectType(contentType: string, filename?: string, content?: Buffer): ExtractType | null {
+  const ct = contentType.split(";")[0].trim().toLowerCase();
+  if (BY_CONTENT_TYPE[ct]) return BY_CONTENT_TYPE[ct];
+  if (ct.startsWith("text/")) return "text";
+  const ext = filename ? BY_EXTENSION[extname(filename).toLowerCase()] : undefined;
+  if (ext) return ext;
+  if (content?.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+  if (content && content[0] === 0x50 && content[1] === 0x4b) {
+    // Zip: tell Word from Excel by the part names in the central directory
+    const names = content.subarray(Math.max(0, content.length - 65536)).toString("latin1");
+    if (names.includes("word/document.xml")) return "docx";
+    if (names.includes("xl/workbook.xml")) return "xlsx";
+  }
+  return null;
+}
+
+function decodeText(content: Buffer, charset?: string): string {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(content);
+  } catch {
+    return new TextDecoder("utf-8").decode(content); // unknown charset label
+  }
+}
+
+function unzip(content: Buffer, wanted: (name: string) => boolean): Record<string, string> {
+  let total = 0;
+  const files = unzipSync(new Uint8Array(content), {
+    filter: (file) => {
+      if (!wanted(file.name)) return false;
+      total += file.originalSize;
+      if (total > MAX_UNZIPPED_BYTES) throw new Error(`Archive expands past ${MAX_UNZIPPED_BYTES} bytes`);
+      return true;
+    },
+  });
+  return Object.fromEntries(Object.entries(files).map(([name, data]) => [name, Buffer.from(data).toString("utf8")]));
+}
+
+function parseXml(xml: string, handlers: {
+  onopentag?(name: string, attribs: Record<string, string>): void;
+  ontext?(text: string): void;
+  onclosetag?(name: string): void;
+}): void {
+  const parser = new Parser(handlers, { xmlMode: true, decodeEntities: true });
+  parser.write(xml);
+  parser.end();
+}
+
+async function pdfText(content: Buffer): Promise<ExtractedText> {
+  const { totalPages, text } = await extractPdfText(new Uint8Array(content), { mergePages: false });
+  const pages = text.map((page, i) => `--- page ${i + 1} of ${totalPages} ---\n${page.trim()}`);
+  return { type: "pdf", text: pages.join("\n\n"), pages: totalPages };
+}
+
+function docxText(content: Buffer): ExtractedText {
+  const xml = unzip(content, name => name === "word/document.xml")["word/document.xml"];
+  if (xml === undefined) throw new Error("Not a DOCX file: word/document.xml is missing");
+  let out = "";
+  let inText = false;
+  let cellDepth = 0;
+  parseXml(xml, {
+    onopentag(name, attribs) {
+      if (name === "w:t") inText = true;
+      else if (name === "w:tab") out += "\t";
+      else if (name === "w:br" || name === "w:cr") out += attribs["w:type"] === "page" ? "\n--- page break ---\n" : "\n";
+      else if (name === "w:tc") cellDepth++;
+    },
+    ontext(text) {
+      if (inText) out += text;
+    },
+    onclosetag(name) {
+      if (name === "w:t") inText = false;
+      // Paragraphs inside a table cell stay on the row's line
+      else if (name === "w:p") out += cellDepth ? " " : "\n";
+      else if (name === "w:tc") {
+        cellDepth--;
+        out = out.replace(/ $/, "") + "\t";
+      } else if (name === "w:tr") out = out.replace(/\t$/, "") + "\n";
+    },
+  });
+  return { type: "docx", text: out.replace(/\n{3,}/g, "\n\n").trim() };
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// "AB12" → 27 (zero-based column index)
+function columnIndex(ref: string): number {
+  let n = 0;
+  for (const ch of ref.replace(/\d+$/, "").toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function xlsxText(content: Buffer): ExtractedText {
+  const files = unzip(content, name =>
+    name === "xl/workbook.xml" || name === "xl/_rels/workbook.xml.rels" || name === "xl/sharedStrings.xml" || name.startsWith("xl/worksheets/"));
+  const workbook = files["xl/workbook.xml"];
+  if (workbook === undefined) throw new Error("Not an XLSX file: xl/workbook.xml is missing");
+
+  const targets = new Map<string, string>();
+  parseXml(files["xl/_rels/workbook.xml.rels"] ?? "", {
+    onopentag(name, attribs) {
+      if (name === "Relationship") targets.set(attribs.Id, attribs.Target.replace(/^\/?(xl\/)?/, "xl/"));
+    },
+  });
+
+  const sheets: Array<{ name: string; path?: string }> = [];
+  parseXml(workbook, {
+    onopentag(name, attribs) {
+      if (name === "sheet") sheets.push({ name: attribs.name, path: targets.get(attribs["r:id"]) });
+    },
+  });
+
+  // Shared strings: concatenate the <t> runs of each <si>, skipping phonetic hints
+  const shared: string[] = [];
+  let current: string | null = null;
+  let inT = false;
+  let inPhonetic = false;
+  parseXml(files["xl/sharedStrings.xml"] ?? "", {
+    onopentag(name) {
+      if (name === "si") current = "";
+      else if (name === "t") inT = true;
+      else if (name === "rPh") inPhonetic = true;
+    },
+    ontext(text) {
+      if (inT && !inPhonetic && current !== null) current += text;
+    },
+    onclosetag(name) {
+      if (name === "si") {
+        shared.push(current ?? "");
+        current = null;
+      } else if (name === "t") inT = false;
+      else if (name === "rPh") inPhonetic = false;
+    },
+  });
+
+  const blocks = sheets.map(sheet => {
+    const xml = sheet.path ? files[sheet.path] : undefined;
+    const rows: string[] = [];
+    let row: string[] = [];
+    let cell: { col: number; type?: string; value: string } | null = null;
+    let inValue = false;
+    parseXml(xml ?? "", {
+      onopentag(name, attribs) {
+        if (name === "row") row = [];
+        else if (name === "c") cell = { col: attribs.r ? columnIndex(attribs.r) : row.length, type: attribs.t, value: "" };
+        else if (name === "v" || name === "t") inValue = true;
+      },
+      ontext(text) {
+        if (inValue && cell) cell.value += text;
+      },
+      onclosetag(name) {
+        if (name === "v" || name === "t") inValue = false;
+        else if (name === "c" && cell) {
+          let value = cell.value;
+          if (cell.type === "s") value = shared[parseInt(value, 10)] ?? "";
+          else if (cell.type === "b") value = value === "1" ? "TRUE" : "FALSE";
+          while (row.length < cell.col) row.push("");
+          row[cell.col] = value;
+          cell = null;
+        } else if (name === "row") rows.push(row.map(csvField).join(","));
+      },
+    });
+    return `--- sheet: ${sheet.name} ---\n${rows.join("\n")}`;
+  });
+  return { type: "xlsx", text: blocks.join("\n\n"), sheets: sheets.map(s => s.name) };
+}
+
+async function emlText(content: Buffer): Promise<ExtractedText> {
+  const parsed = await simpleParser(content);
+  const address = (a: typeof parsed.from | typeof parsed.to) => (Array.isArray(a) ? a.map(x => x.text).join(", ") : a?.text ?? "");
+  const headers = [
+    `From: ${address(parsed.from)}`,
+    `To: ${address(parsed.to)}`,
+    parsed.cc ? `Cc: ${address(parsed.cc)}` : null,
+    `Date: ${parsed.date?.toISOString() ?? ""}`,
+    `Subject: ${parsed.subject ?? ""}`,
+  ].filter(line => line !== null);
+  const body = parsed.text ?? (parsed.html ? htmlToMarkdown(parsed.html, { plain: true }) : "");
+  const attachments = parsed.attachments.map(a => `[attachment: ${a.filename ?? "unnamed"} (${a.contentType}, ${a.size} bytes)]`);
+  return { type: "eml", text: [...headers, "", body.trim(), ...(attachments.length ? ["", ...attachments] : [])].join("\n") };
+}
+
+/** Extract plain text from attachment bytes. Throws UnsupportedTypeError for types we can't read. */
+export async function extractText(content: Buffer, contentType: string, options: { filename?: string; charset?: string } = {}): Promise<ExtractedText> {
+  const type = detectType(contentType, options.filename, content);
+  switch (type) {
+    case "pdf": return pdfText(content);
+    case "docx": return docxText(content);
+    case "xlsx": return xlsxText(content);
+    case "eml": return emlText(content);
+    case "html": return { type, text: htmlToMarkdown(decodeText(content, options.charset), { plain: true }) };
+    case "csv":
+    case "text": return { type, text: decodeText(content, options.charset) };
+    default: throw new UnsupportedTypeError(contentType, options.filename);
+  }
+}
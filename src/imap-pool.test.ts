@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "events";
+
+// Fake ImapFlow: counts connections, lets tests drop them server-side
+const created: FakeClient[] = [];
+
+class FakeClient extends EventEmitter {
+  usable = false;
+  constructor(public options: unknown) {
+    super();
+    created.push(this);
+  }
+  async connect() { this.usable = true; }
+  async logout() { this.usable = false; this.emit("close"); }
+  close() { this.usable = false; this.emit("close"); }
+  drop() { this.usable = false; this.emit("close"); }
+}
+
+vi.mock("imapflow", () => ({ ImapFlow: FakeClient }));
+
+const config = { host: "imap.biz.com", port: 993, user: "coo@biz.com", pass: "secret" };
+
+describe("imap-pool", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    created.length = 0;
+    process.env.IMAP_POOL_MAX = "2";
+    process.env.IMAP_POOL_IDLE_MS = "50";
+  });
+
+  afterEach(() => {
+    delete process.env.IMAP_POOL_MAX;
+    delete process.env.IMAP_POOL_IDLE_MS;
+  });
+
+  it("reuses one connection across sequential calls", async () => {
+    const pool = await import("./imap-pool.js");
+    await pool.withPooledClient(config, async () => 1);
+    await pool.withPooledClient(config, async () => 2);
+    expect(created).toHaveLength(1);
+    expect(pool.getPoolStats()[0]).toMatchObject({ agentId: "default", open: 1, idle: 1, inUse: 0, created: 1 });
+    await pool.closePool();
+  });
+
+  it("keys pools by agent", async () => {
+    const pool = await import("./imap-pool.js");
+    const { runWithAgent } = await import("./config.js");
+    await runWithAgent("coo", () => pool.withPooledClient(config, async () => 1));
+    await runWithAgent("dev", () => pool.withPooledClient(config, async () => 1));
+    expect(created).toHaveLength(2);
+    expect(pool.getPoolStats("coo")).toHaveLength(1);
+    await pool.closePool();
+  });
+
+  it("caps concurrent connections at IMAP_POOL_MAX", async () => {
+    const pool = await import("./imap-pool.js");
+    let active = 0;
+    let peak = 0;
+    const task = () => pool.withPooledClient(config, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(r => setTimeout(r, 5));
+      active--;
+    });
+    await Promise.all([task(), task(), task(), task(), task()]);
+    expect(created).toHaveLength(2);
+    expect(peak).toBe(2);
+    await pool.closePool();
+  });
+
+  it("reconnects when a reused connection was dropped by the server", async () => {
+    const pool = await import("./imap-pool.js");
+    await pool.withPooledClient(config, async () => 1);
+    const first = created[0];
+    const result = await pool.withPooledClient(config, async (client) => {
+      if (client === (first as unknown)) {
+        first.drop();
+        throw Object.assign(new Error("Connection not available"), { code: "NoConnection" });
+      }
+      return "ok";
+    });
+    expect(result).toBe("ok");
+    expect(created).toHaveLength(2);
+    expect(pool.getPoolStats()[0].reconnects).toBe(1);
+    await pool.closePool();
+  });
+
+  it("closes connections that were in use when the pool was closed once they are released", async () => {
+    const pool = await import("./imap-pool.js");
+    let finish!: () => void;
+    const running = pool.withPooledClient(config, () => new Promise<void>(resolve => { finish = resolve; }));
+    await new Promise(r => setTimeout(r, 0));
+    await pool.closePool();
+    expect(created[0].usable).toBe(true);
+    finish();
+    await running;
+    expect(created[0].usable).toBe(false);
+    expect(pool.getPoolStats()).toEqual([]);
+  });
+
+  it("retires an agent's pool when its credentials change or it is removed", async () => {
+    const pool = await import("./imap-pool.js");
+    const { runWithAgent } = await import("./config.js");
+    await runWithAgent("coo", () => pool.withPooledClient(config, async () => 1));
+    await runWithAgent("dev", () => pool.withPooledClient(config, async () => 1));
+    await runWithAgent("coo", () => pool.withPooledClient({ ...config, pass: "rotated" }, async () => 1));
+    expect(created.map(c => c.usable)).toEqual([false, true, true]);
+    expect(pool.getPoolStats("coo")).toHaveLength(1);
+
+    await pool.closeAgentPools(["dev"]);
+    expect(created[1].usable).toBe(false);
+    expect(pool.getPoolStats().map(p => p.agentId)).toEqual(["coo"]);
+    await pool.closePool();
+  });
+
+  it("logs out idle connections after the idle timeout", async () => {
+    const pool = await import("./imap-pool.js");
+    await pool.withPooledClient(config, async () => 1);
+    await new Promise(r => setTimeout(r, 80));
+    expect(created[0].usable).toBe(false);
+    expect(pool.getPoolStats()[0].open).toBe(0);
+  });
+});
@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import { ImapFlow } from "imapflow";
+import { getCurrentAgentId, getEnv } from "./config.js";
+import type { ImapConfig } from "./types.js";
+
+// --- Pooled IMAP connections, keyed by agent ID + IMAP account ---
+// Connections are logged in once and reused across tool calls. Idle connections
+// are logged out after IMAP_POOL_IDLE_MS; at most IMAP_POOL_MAX are open per key.
+// A pool is retired when its agent's IMAP credentials change or the agent is removed:
+// its idle connections are logged out at once, those in use as soon as they are released.
+
+interface PooledClient {
+  client: ImapFlow;
+  idleTimer?: NodeJS.Timeout;
+}
+
+interface Pool {
+  agentId: string;
+  idle: PooledClient[];
+  inUse: Set<PooledClient>;
+  connecting: number;
+  waiters: Array<(entry: PooledClient | null) => void>;
+  created: number;
+  reconnects: number;
+  errors: number;
+  /** Retired: no longer in `pools`, and connections are closed instead of kept idle */
+  closed: boolean;
+}
+
+export interface PoolStats {
+  agentId: string;
+  account: string;
+  open: number;
+  idle: number;
+  inUse: number;
+  waiting: number;
+  created: number;
+  reconnects: number;
+  errors: number;
+}
+
+const pools = new Map<string, Pool>();
+
+function poolKey(agentId: string, config: ImapConfig): string {
+  // Password is hashed into the key so a credential change never reuses an old login
+  const passHash = createHash("sha256").update(config.pass).digest("hex").slice(0, 12);
+  return `${agentId}|${config.user}@${config.host}:${config.port}|${config.tls !== false}|${passHash}`;
+}
+
+function poolSettings() {
+  const max = parseInt(getEnv("IMAP_POOL_MAX") ?? "3", 10);
+  const idleMs = parseInt(getEnv("IMAP_POOL_IDLE_MS") ?? "60000", 10);
+  return {
+    max: isNaN(max) || max < 1 ? 3 : max,
+    idleMs: isNaN(idleMs) || idleMs < 0 ? 60000 : idleMs,
+  };
+}
+
+function isConnectionError(error: unknown): boolean {
+  const code = (error as { code?: string })?.code;
+  return code === "NoConnection" || code === "EConnectionClosed" || code === "StateLogout";
+}
+
+function discard(pool: Pool, entry: PooledClient): void {
+  clearTimeout(entry.idleTimer);
+  pool.idle = pool.idle.filter(e => e !== entry);
+  if (pool.inUse.delete(entry)) {
+    // Freed an active slot — let one waiter open a fresh connection in it
+    pool.waiters.shift()?.(null);
+  }
+  if (entry.client.usable) {
+    entry.client.logout().catch(() => entry.client.close());
+  } else {
+    entry.client.close();
+  }
+}
+
+export function createImapClient(config: ImapConfig): ImapFlow {
+  return new ImapFlow({
+    host: config.host,
+    port: config.port,
+    secure: config.tls !== false,
+    auth: { user: config.user, pass: config.pass },
+    logger: false,
+  });
+}
+
+async function connect(pool: Pool, config: ImapConfig): Promise<PooledClient> {
+  const client = createImapClient(config);
+  const entry: PooledClient = { client };
+  // Server-side disconnects: evict so the next acquire opens a fresh connection
+  client.on("close", () => {
+    clearTimeout(entry.idleTimer);
+    pool.idle = pool.idle.filter(e => e !== entry);
+  });
+  client.on("error", () => {
+    pool.errors++;
+  });
+  await client.connect();
+  pool.created++;
+  return entry;
+}
+
+async function acquire(pool: Pool, config: ImapConfig, max: number): Promise<{ entry: PooledClient; reused: boolean }> {
+  while (pool.idle.length) {
+    const entry = pool.idle.pop()!;
+    clearTimeout(entry.idleTimer);
+    if (entry.client.usable) {
+      pool.inUse.add(entry);
+      return { entry, reused: true };
+    }
+    discard(pool, entry);
+  }
+
+  if (pool.inUse.size + pool.connecting >= max) {
+    const handed = await new Promise<PooledClient | null>(resolve => pool.waiters.push(resolve));
+    if (handed) return { entry: handed, reused: true };
+  }
+
+  // Count the slot before the (slow) handshake so concurrent callers respect max
+  pool.connecting++;
+  try {
+    const entry = await connect(pool, config);
+    pool.inUse.add(entry);
+    return { entry, reused: false };
+  } catch (error) {
+    pool.errors++;
+    pool.waiters.shift()?.(null);
+    throw error;
+  } finally {
+    pool.connecting--;
+  }
+}
+
+function release(pool: Pool, entry: PooledClient, idleMs: number): void {
+  if (!entry.client.usable || pool.closed) {
+    discard(pool, entry);
+    return;
+  }
+
+  const waiter = pool.waiters.shift();
+  if (waiter) {
+    waiter(entry);
+    return;
+  }
+
+  pool.inUse.delete(entry);
+  entry.idleTimer = setTimeout(() => discard(pool, entry), idleMs);
+  entry.idleTimer.unref();
+  pool.idle.push(entry);
+}
+
+// Take a pool out of use: idle connections are logged out now, in-use ones on release
+function retire(key: string, pool: Pool): Promise<unknown> {
+  pool.closed = true;
+  pools.delete(key);
+  const closing = pool.idle.map(entry => {
+    clearTimeout(entry.idleTimer);
+    return entry.client.logout().catch(() => entry.client.close());
+  });
+  pool.idle = [];
+  return Promise.all(closing);
+}
+
+export async function withPooledClient<T>(config: ImapConfig, fn: (client: ImapFlow) => Promise<T>): Promise<T> {
+  const agentId = getCurrentAgentId() ?? "default";
+  const key = poolKey(agentId, config);
+  let pool = pools.get(key);
+  if (!pool) {
+    // The agent's IMAP settings changed: its pools under the old key are never used again
+    for (const [oldKey, old] of pools) {
+      if (old.agentId === agentId) void retire(oldKey, old);
+    }
+    pool = { agentId, idle: [], inUse: new Set(), connecting: 0, waiters: [], created: 0, reconnects: 0, errors: 0, closed: false };
+    pools.set(key, pool);
+  }
+  const { max, idleMs } = poolSettings();
+
+  for (let attempt = 0; ; attempt++) {
+    const { entry, reused } = await acquire(pool, config, max);
+    try {
+      return await fn(entry.client);
+    } catch (error) {
+      // A reused connection may have been dropped by the server while idle — retry once on a fresh one
+      if (reused && attempt === 0 && isConnectionError(error)) {
+        pool.reconnects++;
+        discard(pool, entry);
+        continue;
+      }
+      throw error;
+    } finally {
+      if (pool.inUse.has(entry)) release(pool, entry, idleMs);
+    }
+  }
+}
+
+export function getPoolStats(agentId?: string): PoolStats[] {
+  const stats: PoolStats[] = [];
+  for (const [key, pool] of pools) {
+    if (agentId && pool.agentId !== agentId) continue;
+    stats.push({
+      agentId: pool.agentId,
+      account: key.split("|")[1],
+      open: pool.idle.length + pool.inUse.size + pool.connecting,
+      idle: pool.idle.length,
+      inUse: pool.inUse.size,
+      waiting: pool.waiters.length,
+      created: pool.created,
+      reconnects: pool.reconnects,
+      errors: pool.errors,
+    });
+  }
+  return stats;
+}
+
+/** Retire the pools of agents that were removed (or whose connections must not be reused). */
+export async function closeAgentPools(agentIds: string[]): Promise<void> {
+  await Promise.all([...pools].filter(([, pool]) => agentIds.includes(pool.agentId)).map(([key, pool]) => retire(key, pool)));
+}
+
+/** Retire every pool: idle connections are logged out now, those in use when released. */
+export async function closePool(): Promise<void> {
+  await Promise.all([...pools].map(([key, pool]) => retire(key, pool)));
+}
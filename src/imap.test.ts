@@ -0,0 +1,328 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "events";
+
+// Fake ImapFlow: a folder list plus a log of the commands each test expects to reach the server
+interface FakeBox { path: string; specialUse?: string }
+interface FakeMessage { uid: number; messageId: string; inReplyTo?: string; subject: string; date: string; text: string }
+let boxes: FakeBox[] = [];
+let calls: unknown[][] = [];
+let mail: Record<string, FakeMessage[]> = {};
+let uidValidity = 7n;
+// How the fake answers UID THREAD: not advertised, no exec(), a failing command, or these threads
+let threadMode: "none" | "no-exec" | "error" | number[][] = "none";
+
+function fetched(m: FakeMessage) {
+  const references = m.inReplyTo ? `References: ${m.inReplyTo}\r\n` : "";
+  return {
+    uid: m.uid,
+    envelope: { subject: m.subject, date: new Date(m.date), messageId: m.messageId, inReplyTo: m.inReplyTo, from: [{ address: "a@example.com" }], to: [{ address: "coo@biz.com" }] },
+    headers: Buffer.from(references),
+    source: Buffer.from(`Message-ID: ${m.messageId}\r\n${references}Subject: ${m.subject}\r\n\r\n${m.text}\r\n`),
+  };
+}
+
+class FakeClient extends EventEmitter {
+  usable = false;
+  capabilities = new Map<string, boolean>();
+  mailbox: { path: string; uidValidity: bigint; uidNext: number } | false = false;
+  constructor(public options: unknown) {
+    super();
+    if (threadMode !== "none") this.capabilities.set("THREAD=REFERENCES", true);
+    if (threadMode === "no-exec") (this as Record<string, unknown>).exec = undefined;
+  }
+  async connect() { this.usable = true; }
+  async logout() { this.usable = false; this.emit("close"); }
+  close() { this.usable = false; this.emit("close"); }
+  async list() {
+    return boxes.map(b => ({ path: b.path, name: b.path.split("/").pop(), specialUse: b.specialUse, flags: new Set() }));
+  }
+  async getMailboxLock(path: string) {
+    this.mailbox = { path, uidValidity, uidNext: Math.max(0, ...(mail[path] ?? []).map(m => m.uid)) + 1 };
+    return { release: () => { this.mailbox = false; } };
+  }
+  private selected() { return this.mailbox ? this.mailbox.path : null; }
+  private inSelected() { return mail[this.selected() ?? ""] ?? []; }
+  async fetchOne(uid: string) {
+    const m = this.inSelected().find(m => m.uid === Number(uid));
+    return m ? fetched(m) : false;
+  }
+  // Every message in the mailbox "matches"; grouping is left to groupThread
+  async search() { return this.inSelected().map(m => m.uid); }
+  async *fetch(uids: number[]) {
+    for (const m of this.inSelected().filter(m => uids.includes(m.uid))) yield fetched(m);
+  }
+  // Shape of imapflow 1.2's exec(): untagged handlers get parsed attributes, the result has next()
+  async exec(command: string, _attributes: unknown, options: { untagged: Record<string, (u: unknown) => Promise<void>> }) {
+    calls.push(["exec", command]);
+    if (threadMode === "error") throw new Error("BAD command unknown");
+    const atoms = (node: number[] | number): unknown => (Array.isArray(node) ? node.map(atoms) : { type: "ATOM", value: String(node) });
+    await options.untagged.THREAD({ attributes: (threadMode as number[][]).map(atoms) });
+    return { next: () => {} };
+  }
+  async messageFlagsAdd(uids: number[], flags: string[]) { calls.push(["flagsAdd", this.selected(), uids, flags]); return true; }
+  async messageFlagsRemove(uids: number[], flags: string[]) { calls.push(["flagsRemove", this.selected(), uids, flags]); return true; }
+  async messageMove(uids: number[], destination: string) {
+    calls.push(["move", this.selected(), uids, destination]);
+    return { path: this.selected(), destination, uidValidity: 9n, uidMap: new Map(uids.map((u, i) => [u, 100 + i])) };
+  }
+  async messageCopy(uids: number[], destination: string) {
+    calls.push(["copy", this.selected(), uids, destination]);
+    return { path: this.selected(), destination };
+  }
+  async messageDelete(uids: number[]) { calls.push(["expunge", this.selected(), uids]); return true; }
+  async mailboxCreate(path: string) { calls.push(["create", path]); return { path, created: true }; }
+  async mailboxRename(path: string, newPath: string) { calls.push(["rename", path, newPath]); return { path, newPath }; }
+  async mailboxDelete(path: string) { calls.push(["delete", path]); return { path }; }
+  async mailboxSubscribe(path: string) { calls.push(["subscribe", path]); return true; }
+  async mailboxUnsubscribe(path: string) { calls.push(["unsubscribe", path]); return !path.startsWith("Missing"); }
+}
+
+vi.mock("imapflow", () => ({ ImapFlow: FakeClient }));
+
+const config = { host: "imap.biz.com", port: 993, user: "coo@biz.com", pass: "secret" };
+
+describe("imap", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    boxes = [{ path: "INBOX" }];
+    calls = [];
+    mail = {};
+    uidValidity = 7n;
+    threadMode = "none";
+  });
+
+  afterEach(async () => {
+    delete process.env.SCOPE_READ_MAILBOXES;
+    delete process.env.SCOPE_WRITE_MAILBOXES;
+    const { closePool } = await import("./imap-pool.js");
+    await closePool();
+  });
+
+  describe("flags", () => {
+    it("normalizes system flags and accepts IMAP atom keywords", async () => {
+      const { normalizeFlags } = await import("./imap.js");
+      expect(normalizeFlags(["\\seen", "\\FLAGGED", "$agent-processed", "Work_1"])).toEqual(["\\Seen", "\\Flagged", "$agent-processed", "Work_1"]);
+      expect(() => normalizeFlags([])).toThrow(/At least one flag/);
+      expect(() => normalizeFlags(["\\Deleted"])).toThrow(/Unsupported system flag/);
+      expect(() => normalizeFlags(["\\Recent"])).toThrow(/Unsupported system flag/);
+    });
+
+    it("rejects keywords outside printable ASCII atom characters", async () => {
+      const { normalizeFlags } = await import("./imap.js");
+      for (const keyword of ["two words", "a(b", "a{1}", "wild*", "50%", 'q"t', "a]b", "tab\t", "nul\u0000", "del\u007f", "naïve", "émoji🙂", ""]) {
+        expect(() => normalizeFlags([keyword]), JSON.stringify(keyword)).toThrow(/Invalid IMAP keyword/);
+      }
+    });
+
+    it("sets and clears normalized flags by UID in the given mailbox", async () => {
+      const imap = await import("./imap.js");
+      expect(await imap.setFlags(config, "Projects", [1, 2], ["\\seen", "$done"])).toBe(true);
+      expect(await imap.clearFlags(config, "INBOX", [3], ["\\Flagged"])).toBe(true);
+      expect(calls).toEqual([
+        ["flagsAdd", "Projects", [1, 2], ["\\Seen", "$done"]],
+        ["flagsRemove", "INBOX", [3], ["\\Flagged"]],
+      ]);
+      // Validation happens before a connection is used
+      await expect(imap.setFlags(config, "INBOX", [1], ["bad flag"])).rejects.toThrow(/Invalid IMAP keyword/);
+      expect(calls).toHaveLength(2);
+    });
+  });
+
+  describe("move, copy, archive, delete", () => {
+    it("moves and copies with the UIDPLUS uid map when the server returns one", async () => {
+      const imap = await import("./imap.js");
+      expect(await imap.moveMessages(config, "INBOX", [5, 6], "Projects")).toEqual({ source: "INBOX", destination: "Projects", uidMap: { 5: 100, 6: 101 } });
+      expect(await imap.copyMessages(config, "INBOX", [7], "Projects")).toEqual({ source: "INBOX", destination: "Projects" });
+      await expect(imap.moveMessages(config, "INBOX", [1], "INBOX")).rejects.toThrow(/both INBOX/);
+      expect(calls).toEqual([["move", "INBOX", [5, 6], "Projects"], ["copy", "INBOX", [7], "Projects"]]);
+    });
+
+    it("archives to the \\Archive special-use folder, falling back to a folder named Archive(s)", async () => {
+      const imap = await import("./imap.js");
+      boxes = [{ path: "INBOX" }, { path: "Archive" }, { path: "[Gmail]/All Mail", specialUse: "\\Archive" }];
+      await imap.archiveMessages(config, "INBOX", [1]);
+      boxes = [{ path: "INBOX" }, { path: "Old/Archives" }];
+      await imap.archiveMessages(config, "INBOX", [2]);
+      expect(calls).toEqual([["move", "INBOX", [1], "[Gmail]/All Mail"], ["move", "INBOX", [2], "Old/Archives"]]);
+      boxes = [{ path: "INBOX" }];
+      await expect(imap.archiveMessages(config, "INBOX", [3])).rejects.toThrow(/No \\Archive folder/);
+    });
+
+    it("moves to Trash unless permanent, which expunges in place", async () => {
+      const imap = await import("./imap.js");
+      boxes = [{ path: "INBOX" }, { path: "Deleted Items" }];
+      expect(await imap.deleteMessages(config, "INBOX", [1])).toMatchObject({ source: "INBOX", destination: "Deleted Items" });
+      expect(await imap.deleteMessages(config, "INBOX", [2], true)).toEqual({ source: "INBOX", destination: null, expunged: true });
+      await expect(imap.deleteMessages(config, "Deleted Items", [3])).rejects.toThrow(/already in Deleted Items/);
+      expect(await imap.deleteMessages(config, "Deleted Items", [3], true)).toMatchObject({ expunged: true });
+      expect(calls).toEqual([["move", "INBOX", [1], "Deleted Items"], ["expunge", "INBOX", [2]], ["expunge", "Deleted Items", [3]]]);
+
+      boxes = [{ path: "INBOX" }];
+      await expect(imap.deleteMessages(config, "INBOX", [4])).rejects.toThrow(/No \\Trash folder .*permanent=true/);
+    });
+  });
+
+  describe("mailbox management", () => {
+    beforeEach(() => {
+      boxes = [{ path: "INBOX" }, { path: "Sent", specialUse: "\\Sent" }, { path: "Projects" }];
+    });
+
+    it("creates, renames, deletes and (un)subscribes user folders", async () => {
+      const imap = await import("./imap.js");
+      expect(await imap.createMailbox(config, "Projects/Acme")).toEqual({ path: "Projects/Acme", created: true });
+      expect(await imap.renameMailbox(config, "Projects", "Clients")).toEqual({ path: "Projects", newPath: "Clients" });
+      expect(await imap.deleteMailbox(config, "Projects")).toEqual({ path: "Projects" });
+      expect(await imap.subscribeMailbox(config, "Projects")).toEqual({ path: "Projects", subscribed: true });
+      expect(await imap.subscribeMailbox(config, "Projects", false)).toEqual({ path: "Projects", subscribed: false });
+      await expect(imap.subscribeMailbox(config, "Missing", false)).rejects.toThrow(/Failed to unsubscribe from Missing/);
+      expect(calls).toEqual([
+        ["create", "Projects/Acme"],
+        ["rename", "Projects", "Clients"],
+        ["delete", "Projects"],
+        ["subscribe", "Projects"],
+        ["unsubscribe", "Projects"],
+        ["unsubscribe", "Missing"],
+      ]);
+    });
+
+    it("refuses to rename or delete INBOX, special-use or unknown folders", async () => {
+      const imap = await import("./imap.js");
+      await expect(imap.renameMailbox(config, "inbox", "Old")).rejects.toThrow(/INBOX cannot be renamed or deleted/);
+      await expect(imap.deleteMailbox(config, "INBOX")).rejects.toThrow(/INBOX cannot be renamed or deleted/);
+      await expect(imap.renameMailbox(config, "Sent", "Outgoing")).rejects.toThrow(/Sent is the \\Sent folder/);
+      await expect(imap.deleteMailbox(config, "Sent")).rejects.toThrow(/Sent is the \\Sent folder/);
+      await expect(imap.deleteMailbox(config, "Nope")).rejects.toThrow(/Mailbox not found: Nope/);
+      expect(calls).toEqual([]);
+    });
+  });
+
+  describe("checkMailbox", () => {
+    beforeEach(() => {
+      mail = {
+        INBOX: [
+          { uid: 4, messageId: "<a@x>", subject: "Old", date: "2026-03-01T10:00:00Z", text: "" },
+          { uid: 5, messageId: "<b@x>", subject: "New", date: "2026-03-02T10:00:00Z", text: "" },
+          { uid: 6, messageId: "<c@x>", subject: "Newer", date: "2026-03-03T10:00:00Z", text: "" },
+        ],
+      };
+    });
+
+    it("returns messages after sinceUid and advances lastUid", async () => {
+      const imap = await import("./imap.js");
+      expect(await imap.checkMailbox(config, "INBOX", 4)).toEqual({
+        mailbox: "INBOX",
+        uidValidity: "7",
+        lastUid: 6,
+        messages: [
+          { uid: 5, from: "a@example.com", date: "2026-03-02T10:00:00.000Z" },
+          { uid: 6, from: "a@example.com", date: "2026-03-03T10:00:00.000Z" },
+        ],
+      });
+      expect(await imap.checkMailbox(config, "INBOX", 6, "7")).toEqual({ mailbox: "INBOX", uidValidity: "7", lastUid: 6, messages: [] });
+    });
+
+    it("reports a UIDVALIDITY change instead of trusting the old UIDs", async () => {
+      uidValidity = 8n;
+      const imap = await import("./imap.js");
+      expect(await imap.checkMailbox(config, "INBOX", 2, "7")).toEqual({
+        mailbox: "INBOX",
+        uidValidity: "8",
+        lastUid: 6,
+        messages: [],
+        uidValidityChanged: { previous: "7", current: "8" },
+      });
+    });
+  });
+
+  describe("getThread", () => {
+    beforeEach(() => {
+      boxes = [{ path: "INBOX" }, { path: "Sent Items", specialUse: "\\Sent" }];
+      mail = {
+        INBOX: [
+          { uid: 1, messageId: "<a@x>", subject: "Plan", date: "2026-03-01T10:00:00Z", text: "First" },
+          { uid: 2, messageId: "<b@x>", inReplyTo: "<a@x>", subject: "Re: Plan", date: "2026-03-02T10:00:00Z", text: "Second\n\nOn Sunday a@example.com wrote:\n> First" },
+          { uid: 3, messageId: "<z@x>", inReplyTo: "<y@x>", subject: "Other", date: "2026-03-03T10:00:00Z", text: "Unrelated" },
+        ],
+        "Sent Items": [
+          { uid: 10, messageId: "<c@x>", inReplyTo: "<b@x>", subject: "Re: Plan", date: "2026-03-04T10:00:00Z", text: "Our answer" },
+        ],
+      };
+    });
+
+    it("groups by headers across the mailbox and Sent when THREAD isn't advertised", async () => {
+      const imap = await import("./imap.js");
+      const thread = await imap.getThread(config, "INBOX", 2);
+      expect(thread.method).toBe("local");
+      expect(thread.messages.map(m => [m.mailbox, m.uid, m.text])).toEqual([
+        ["INBOX", 1, "First"],
+        ["INBOX", 2, "Second"],
+        ["Sent Items", 10, "Our answer"],
+      ]);
+      expect(calls).toEqual([]);
+    });
+
+    it("uses the server's THREAD result for the source mailbox", async () => {
+      threadMode = [[3], [1, [2]]];
+      const imap = await import("./imap.js");
+      const thread = await imap.getThread(config, "INBOX", 1);
+      expect(thread.method).toBe("thread");
+      expect(thread.messages.map(m => m.uid)).toEqual([1, 2, 10]);
+      expect(calls).toEqual([["exec", "UID THREAD"]]);
+    });
+
+    it("falls back to header search when THREAD fails, has no exec() or omits the message", async () => {
+      for (const mode of ["error", "no-exec", [[3]]] as const) {
+        vi.resetModules();
+        threadMode = mode;
+        const imap = await import("./imap.js");
+        const thread = await imap.getThread(config, "INBOX", 2);
+        expect(thread.method, JSON.stringify(mode)).toBe("local");
+        expect(thread.messages.map(m => m.uid)).toEqual([1, 2, 10]);
+        const { closePool } = await import("./imap-pool.js");
+        await closePool();
+      }
+    });
+  });
+
+  describe("mailbox scopes on server-resolved folders", () => {
+    beforeEach(() => {
+      boxes = [{ path: "INBOX" }, { path: "Sent Items", specialUse: "\\Sent" }, { path: "Drafts", specialUse: "\\Drafts" }, { path: "Archive" }, { path: "Trash" }];
+    });
+
+    it("leaves Sent out of a thread when it isn't readable", async () => {
+      process.env.SCOPE_READ_MAILBOXES = "INBOX";
+      mail = {
+        INBOX: [{ uid: 1, messageId: "<a@x>", subject: "Plan", date: "2026-03-01T10:00:00Z", text: "First" }],
+        "Sent Items": [{ uid: 10, messageId: "<c@x>", inReplyTo: "<a@x>", subject: "Re: Plan", date: "2026-03-04T10:00:00Z", text: "Our answer" }],
+      };
+      const imap = await import("./imap.js");
+      expect((await imap.getThread(config, "INBOX", 1)).messages.map(m => [m.mailbox, m.uid])).toEqual([["INBOX", 1]]);
+    });
+
+    it("checks the Drafts folder: read to list, write to save, send or delete", async () => {
+      process.env.SCOPE_READ_MAILBOXES = "INBOX";
+      process.env.SCOPE_WRITE_MAILBOXES = "INBOX";
+      const imap = await import("./imap.js");
+      await expect(imap.listDrafts(config)).rejects.toMatchObject({ name: "ScopeError", mailbox: "Drafts", access: "read" });
+      await expect(imap.saveDraft(config, "raw")).rejects.toMatchObject({ name: "ScopeError", mailbox: "Drafts", access: "write" });
+      await expect(imap.saveDraft(config, "raw", 4)).rejects.toMatchObject({ name: "ScopeError", access: "write" });
+      await expect(imap.getDraftSource(config, 4)).rejects.toMatchObject({ name: "ScopeError", access: "write" });
+      await expect(imap.deleteDraft(config, 4)).rejects.toMatchObject({ name: "ScopeError", access: "write" });
+      expect(calls).toEqual([]);
+    });
+
+    it("checks write access to the Archive or Trash destination", async () => {
+      process.env.SCOPE_WRITE_MAILBOXES = "INBOX";
+      const imap = await import("./imap.js");
+      await expect(imap.archiveMessages(config, "INBOX", [1])).rejects.toMatchObject({ name: "ScopeError", mailbox: "Archive", access: "write" });
+      await expect(imap.deleteMessages(config, "INBOX", [1])).rejects.toMatchObject({ name: "ScopeError", mailbox: "Trash", access: "write" });
+      expect(calls).toEqual([]);
+      expect(await imap.deleteMessages(config, "INBOX", [2], true)).toMatchObject({ expunged: true });
+
+      process.env.SCOPE_WRITE_MAILBOXES = "INBOX,Archive,Trash";
+      await imap.archiveMessages(config, "INBOX", [3]);
+      await imap.deleteMessages(config, "INBOX", [4]);
+      expect(calls).toEqual([["expunge", "INBOX", [2]], ["move", "INBOX", [3], "Archive"], ["move", "INBOX", [4], "Trash"]]);
+    });
+  });
+});
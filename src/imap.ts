@@ -1,21 +1,17 @@
-import { ImapFlow } from "imapflow";
+import type { Readable } from "stream";
+import type { ImapFlow, CopyResponseObject } from "imapflow";
 import { simpleParser } from "mailparser";
-import type { ImapConfig, MailboxInfo, EmailEnvelope, EmailFull, AttachmentInfo, SearchCriteria } from "./types.js";
+import { withPooledClient } from "./imap-pool.js";
+import { groupThread, normalizeSubject, parseMessageIds, stripQuoted } from "./thread.js";
+import { sanitizeText } from "./sanitize.js";
+import { checkMailbox as checkMailboxScope, mailboxAllowed } from "./scopes.js";
+import type { MailboxAccess } from "./scopes.js";
+import type { ThreadCandidate } from "./thread.js";
+import type { ImapConfig, MailboxInfo, EmailEnvelope, EmailFull, AttachmentInfo, SearchCriteria, MoveResult, ThreadMessage, ThreadResult } from "./types.js";
 
-async function withClient<T>(config: ImapConfig, fn: (client: ImapFlow) => Promise<T>): Promise<T> {
-  const client = new ImapFlow({
-    host: config.host,
-    port: config.port,
-    secure: config.tls !== false,
-    auth: { user: config.user, pass: config.pass },
-    logger: false,
-  });
-  await client.connect();
-  try {
-    return await fn(client);
-  } finally {
-    await client.logout();
-  }
+// All operations run on a pooled, already-authenticated connection for the current agent
+function withClient<T>(config: ImapConfig, fn: (client: ImapFlow) => Promise<T>): Promise<T> {
+  return withPooledClient(config, fn);
 }
 
 function formatAddr(addr: { name?: string; address?: string } | undefined): string {
@@ -39,47 +35,99 @@ function envelopeToEntry(msg: any): EmailEnvelope {
     date: env.date?.toISOString?.() || "",
     flags: [...(msg.flags || [])].map(String),
     messageId: env.messageId || undefined,
+    inReplyTo: env.inReplyTo || undefined,
   };
 }
 
 export async function listMailboxes(config: ImapConfig): Promise<MailboxInfo[]> {
   return withClient(config, async (client) => {
-    const mailboxes = await client.list();
+    // STATUS per folder in the same round-trip (LIST-STATUS when supported)
+    const mailboxes = await client.list({ statusQuery: { messages: true, unseen: true } });
     return mailboxes.map(mb => ({
       path: mb.path,
       name: mb.name,
       flags: [...(mb.flags || [])].map(String),
       specialUse: mb.specialUse || undefined,
+      subscribed: mb.subscribed,
+      messages: mb.status?.messages,
+      unseen: mb.status?.unseen,
     }));
   });
 }
 
-export async function listMessages(config: ImapConfig, mailbox: string, limit = 20, offset = 0): Promise<EmailEnvelope[]> {
+export async function createMailbox(config: ImapConfig, path: string): Promise<{ path: string; created: boolean }> {
   return withClient(config, async (client) => {
-    const lock = await client.getMailboxLock(mailbox);
-    try {
-      const status = await client.status(mailbox, { messages: true });
-      const total = status.messages ?? 0;
-      if (total === 0) return [];
+    const res = await client.mailboxCreate(path);
+    return { path: res.path, created: res.created };
+  });
+}
 
-      const end = Math.max(1, total - offset);
-      const start = Math.max(1, end - limit + 1);
-      if (end < 1) return [];
+// INBOX and special-use folders (Sent, Trash, ...) are server-managed — refuse to rename/delete them
+async function assertUserMailbox(client: ImapFlow, path: string): Promise<void> {
+  if (path.toUpperCase() === "INBOX") throw new Error("INBOX cannot be renamed or deleted");
+  const mailboxes = await client.list();
+  const box = mailboxes.find(mb => mb.path === path);
+  if (!box) throw new Error(`Mailbox not found: ${path}`);
+  if (box.specialUse) throw new Error(`${path} is the ${box.specialUse} folder and cannot be renamed or deleted`);
+}
 
-      const messages: EmailEnvelope[] = [];
-      for await (const msg of client.fetch(`${start}:${end}`, { uid: true, flags: true, envelope: true })) {
-        if (!msg) continue;
-        messages.push(envelopeToEntry(msg));
-      }
-      messages.reverse();
-      return messages;
-    } finally {
-      lock.release();
-    }
+export async function renameMailbox(config: ImapConfig, path: string, newPath: string): Promise<{ path: string; newPath: string }> {
+  return withClient(config, async (client) => {
+    await assertUserMailbox(client, path);
+    const res = await client.mailboxRename(path, newPath);
+    return { path: res.path, newPath: res.newPath };
+  });
+}
+
+export async function deleteMailbox(config: ImapConfig, path: string): Promise<{ path: string }> {
+  return withClient(config, async (client) => {
+    await assertUserMailbox(client, path);
+    const res = await client.mailboxDelete(path);
+    return { path: res.path };
+  });
+}
+
+export async function subscribeMailbox(config: ImapConfig, path: string, subscribe = true): Promise<{ path: string; subscribed: boolean }> {
+  return withClient(config, async (client) => {
+    const ok = subscribe ? await client.mailboxSubscribe(path) : await client.mailboxUnsubscribe(path);
+    if (!ok) throw new Error(`Failed to ${subscribe ? "subscribe to" : "unsubscribe from"} ${path}`);
+    return { path, subscribed: subscribe };
   });
 }
 
-export async function getMessage(config: ImapConfig, mailbox: string, uid: number): Promise<EmailFull> {
+async function fetchNewest(client: ImapFlow, mailbox: string, limit: number, offset: number): Promise<EmailEnvelope[]> {
+  const lock = await client.getMailboxLock(mailbox);
+  try {
+    const status = await client.status(mailbox, { messages: true });
+    const total = status.messages ?? 0;
+    if (total === 0) return [];
+
+    const end = Math.max(1, total - offset);
+    const start = Math.max(1, end - limit + 1);
+    if (end < 1) return [];
+
+    const messages: EmailEnvelope[] = [];
+    for await (const msg of client.fetch(`${start}:${end}`, { uid: true, flags: true, envelope: true })) {
+      if (!msg) continue;
+      messages.push(envelopeToEntry(msg));
+    }
+    messages.reverse();
+    return messages;
+  } finally {
+    lock.release();
+  }
+}
+
+export async function listMessages(config: ImapConfig, mailbox: string, limit = 20, offset = 0): Promise<EmailEnvelope[]> {
+  return withClient(config, (client) => fetchNewest(client, mailbox, limit, offset));
+}
+
+export interface GetMessageOptions {
+  /** Set \Seen after fetching. The body is always fetched with BODY.PEEK[], so without this the flags are left untouched. */
+  markSeen?: boolean;
+}
+
+export async function getMessage(config: ImapConfig, mailbox: string, uid: number, options: GetMessageOptions = {}): Promise<EmailFull> {
   return withClient(config, async (client) => {
     const lock = await client.getMailboxLock(mailbox);
     try {
@@ -89,6 +137,11 @@ export async function getMessage(config: ImapConfig, mailbox: string, uid: numbe
 
       if (!msg) throw new Error(`Message UID ${uid} not found`);
 
+      if (options.markSeen && !msg.flags?.has("\\Seen")) {
+        await client.messageFlagsAdd(String(uid), ["\\Seen"], { uid: true });
+        msg.flags = new Set([...(msg.flags || []), "\\Seen"]);
+      }
+
       const env = msg.envelope || {};
       const source = msg.source?.toString() || "";
       const parsed = await simpleParser(source);
@@ -117,10 +170,13 @@ export async function getMessage(config: ImapConfig, mailbox: string, uid: numbe
         from: formatAddrList(env.from),
         to: formatAddrList(env.to),
         cc: formatAddrList(env.cc) || undefined,
+        replyTo: formatAddrList(env.replyTo) || undefined,
         subject: env.subject || "",
         date: env.date?.toISOString?.() || "",
         flags: [...(msg.flags || [])].map(String),
         messageId: env.messageId || undefined,
+        inReplyTo: env.inReplyTo || undefined,
+        references: parsed.references ? [parsed.references].flat() : undefined,
         text: parsed.text || undefined,
         html: typeof parsed.html === "string" ? parsed.html : undefined,
         attachments,
@@ -162,64 +218,456 @@ export async function searchMessages(config: ImapConfig, mailbox: string, criter
   });
 }
 
-export async function downloadAttachment(config: ImapConfig, mailbox: string, uid: number, part: string): Promise<{ content: string; contentType: string }> {
+export interface AttachmentMeta {
+  contentType: string;
+  filename?: string;
+  charset?: string;
+}
+
+export interface AttachmentContent extends AttachmentMeta {
+  content: Buffer;
+}
+
+/** Run fn on an attachment's decoded byte stream while the mailbox is locked. fn must consume the stream. */
+export async function withAttachmentStream<T>(config: ImapConfig, mailbox: string, uid: number, part: string, fn: (stream: Readable, meta: AttachmentMeta) => Promise<T>): Promise<T> {
   return withClient(config, async (client) => {
     const lock = await client.getMailboxLock(mailbox);
     try {
       const { content, meta } = await client.download(String(uid), part, { uid: true });
-      const chunks: Buffer[] = [];
-      for await (const chunk of content) {
-        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
-      }
-      return {
-        content: Buffer.concat(chunks).toString("base64"),
+      return await fn(content, {
         contentType: meta?.contentType || "application/octet-stream",
-      };
+        ...(meta?.filename ? { filename: meta.filename } : {}),
+        ...(meta?.charset ? { charset: meta.charset } : {}),
+      });
     } finally {
       lock.release();
     }
   });
 }
+
+/** Attachment bytes by part number. With maxBytes, larger parts are rejected rather than buffered. */
+export async function fetchAttachment(config: ImapConfig, mailbox: string, uid: number, part: string, maxBytes?: number): Promise<AttachmentContent> {
+  return withAttachmentStream(config, mailbox, uid, part, async (content, meta) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of content) {
+      size += chunk.length;
+      // Keep reading past the limit (without buffering) so the connection stays usable
+      if (maxBytes === undefined || size <= maxBytes) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
+    }
+    if (maxBytes !== undefined && size > maxBytes) throw new Error(`Attachment is ${size} bytes; the limit is ${maxBytes} bytes`);
+    return { content: Buffer.concat(chunks), ...meta };
+  });
+}
+
+export async function downloadAttachment(config: ImapConfig, mailbox: string, uid: number, part: string): Promise<{ content: string; contentType: string }> {
+  const { content, contentType } = await fetchAttachment(config, mailbox, uid, part);
+  return { content: content.toString("base64"), contentType };
+}
+
 export interface NewEmailEntry {
   uid: number;
   from: string;
   date: string;
 }
 
+/** Messages with UID > sinceUid in the client's currently selected mailbox. */
+export async function fetchNewEntries(client: ImapFlow, sinceUid: number): Promise<NewEmailEntry[]> {
+  // Search for UIDs greater than sinceUid
+  const result: any = await client.search({ uid: `${sinceUid + 1}:*` }, { uid: true });
+  const uids: number[] = Array.isArray(result) ? result.filter((u: number) => u > sinceUid) : [];
+  if (!uids.length) return [];
+
+  const entries: NewEmailEntry[] = [];
+  for await (const msg of client.fetch(uids, { uid: true, envelope: true }, { uid: true })) {
+    if (!msg) continue;
+    const env = msg.envelope || {};
+    entries.push({
+      uid: msg.uid,
+      // Pushed to check-email, SSE and webhooks without a read tool in between
+      from: sanitizeText(formatAddrList(env.from)),
+      date: env.date?.toISOString?.() || "",
+    });
+  }
+  return entries;
+}
+
 export async function checkNewEmail(config: ImapConfig, sinceUid: number, mailbox = "INBOX"): Promise<NewEmailEntry[]> {
   return withClient(config, async (client) => {
     const lock = await client.getMailboxLock(mailbox);
     try {
-      // Search for UIDs greater than sinceUid
-      const result: any = await client.search({ uid: `${sinceUid + 1}:*` }, { uid: true });
-      const uids: number[] = Array.isArray(result) ? result.filter((u: number) => u > sinceUid) : [];
-      if (!uids.length) return [];
+      return await fetchNewEntries(client, sinceUid);
+    } finally {
+      lock.release();
+    }
+  });
+}
 
-      const entries: NewEmailEntry[] = [];
-      for await (const msg of client.fetch(uids, { uid: true, envelope: true }, { uid: true })) {
-        if (!msg) continue;
-        const env = msg.envelope || {};
-        entries.push({
-          uid: msg.uid,
-          from: formatAddrList(env.from),
-          date: env.date?.toISOString?.() || "",
-        });
+export interface MailboxCheck {
+  mailbox: string;
+  uidValidity: string;
+  /** Highest UID the caller has now seen — the next check starts after it */
+  lastUid: number;
+  messages: NewEmailEntry[];
+  /** Set when the mailbox's UIDVALIDITY differs from the one the caller last saw */
+  uidValidityChanged?: { previous: string; current: string };
+}
+
+/**
+ * New messages since `sinceUid`, guarded by UIDVALIDITY. If the server renumbered the
+ * mailbox, old UIDs are meaningless: no messages are returned, the change is reported,
+ * and lastUid moves to the current end of the mailbox.
+ */
+export async function checkMailbox(config: ImapConfig, mailbox: string, sinceUid: number, uidValidity?: string): Promise<MailboxCheck> {
+  return withClient(config, async (client) => {
+    const lock = await client.getMailboxLock(mailbox);
+    try {
+      const info: any = client.mailbox;
+      const current = String(info.uidValidity);
+      if (uidValidity !== undefined && uidValidity !== current) {
+        return {
+          mailbox,
+          uidValidity: current,
+          lastUid: Math.max((info.uidNext ?? 1) - 1, 0),
+          messages: [],
+          uidValidityChanged: { previous: uidValidity, current },
+        };
       }
-      return entries;
+      const messages = await fetchNewEntries(client, sinceUid);
+      const lastUid = messages.reduce((max, m) => Math.max(max, m.uid), sinceUid);
+      return { mailbox, uidValidity: current, lastUid, messages };
     } finally {
       lock.release();
     }
   });
 }
 
+// System flags agents may set; \Deleted is deliberately excluded (use deleteMessages)
+const SYSTEM_FLAGS = ["\\Seen", "\\Flagged", "\\Answered", "\\Draft"];
+// IMAP atom (RFC 3501 §9): printable ASCII except ( ) { % * " \ ]
+const KEYWORD_RE = /^[\x21\x23\x24\x26\x27\x2B-\x5B\x5E-\x7A\x7C-\x7E]+$/;
+
+export function normalizeFlags(flags: string[]): string[] {
+  if (!flags.length) throw new Error("At least one flag is required");
+  return flags.map(flag => {
+    if (flag.startsWith("\\")) {
+      const system = SYSTEM_FLAGS.find(f => f.toLowerCase() === flag.toLowerCase());
+      if (!system) throw new Error(`Unsupported system flag: ${flag} (allowed: ${SYSTEM_FLAGS.join(", ")})`);
+      return system;
+    }
+    if (!KEYWORD_RE.test(flag)) throw new Error(`Invalid IMAP keyword: ${flag}`);
+    return flag;
+  });
+}
+
+export async function setFlags(config: ImapConfig, mailbox: string, uids: number[], flags: string[]): Promise<boolean> {
+  const normalized = normalizeFlags(flags);
+  return withClient(config, async (client) => {
+    const lock = await client.getMailboxLock(mailbox);
+    try {
+      return await client.messageFlagsAdd(uids, normalized, { uid: true });
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+export async function clearFlags(config: ImapConfig, mailbox: string, uids: number[], flags: string[]): Promise<boolean> {
+  const normalized = normalizeFlags(flags);
+  return withClient(config, async (client) => {
+    const lock = await client.getMailboxLock(mailbox);
+    try {
+      return await client.messageFlagsRemove(uids, normalized, { uid: true });
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+// Resolve a special-use folder (RFC 6154), falling back to a conventional name
+async function findSpecialUse(client: ImapFlow, specialUse: string, fallbackName: RegExp): Promise<string | null> {
+  const mailboxes = await client.list();
+  const box = mailboxes.find(mb => mb.specialUse === specialUse) ||
+              mailboxes.find(mb => fallbackName.test(mb.name));
+  return box?.path ?? null;
+}
+
 export async function appendToSent(config: ImapConfig, rawMessage: Buffer | string): Promise<string | null> {
   return withClient(config, async (client) => {
-    const mailboxes = await client.list();
-    const sentBox = mailboxes.find(mb => mb.specialUse === "\\Sent") ||
-                    mailboxes.find(mb => /^sent$/i.test(mb.name));
-    if (!sentBox) return null;
-    await client.append(sentBox.path, rawMessage, ["\\Seen"]);
-    return sentBox.path;
+    const sentPath = await findSpecialUse(client, "\\Sent", /^sent$/i);
+    if (!sentPath) return null;
+    await client.append(sentPath, rawMessage, ["\\Seen"]);
+    return sentPath;
+  });
+}
+
+// --- Threads ---
+
+const THREAD_CANDIDATE_LIMIT = 200;
+
+function toCandidate(mailbox: string, msg: any): ThreadCandidate {
+  const env = msg.envelope || {};
+  return {
+    mailbox,
+    uid: msg.uid,
+    subject: env.subject || "",
+    date: env.date?.toISOString?.() || "",
+    messageId: env.messageId || undefined,
+    inReplyTo: env.inReplyTo || undefined,
+    // Only the References header is fetched, so every Message-ID in the block belongs to it
+    references: parseMessageIds(msg.headers?.toString()),
+  };
+}
+
+// UID THREAD REFERENCES (RFC 5256). imapflow has no wrapper, so this goes through its
+// internal exec(); anything unexpected — no exec, a failed command, an unparseable
+// response, the message missing from every thread — returns null and getThread falls
+// back to header search. Tested against imapflow 1.2.x (see imap.test.ts).
+async function serverThread(client: ImapFlow, uid: number): Promise<number[] | null> {
+  if (!client.capabilities.has("THREAD=REFERENCES")) return null;
+  const exec = (client as any).exec;
+  if (typeof exec !== "function") return null;
+  const threads: number[][] = [];
+  const flatten = (node: any): number[] =>
+    Array.isArray(node) ? node.flatMap(flatten) : (/^\d+$/.test(String(node?.value ?? "")) ? [Number(node.value)] : []);
+  try {
+    const response = await exec.call(client, "UID THREAD", [
+      { type: "ATOM", value: "REFERENCES" },
+      { type: "ATOM", value: "UTF-8" },
+      { type: "ATOM", value: "ALL" },
+    ], {
+      untagged: {
+        THREAD: async (untagged: any) => {
+          for (const thread of untagged?.attributes || []) threads.push(flatten(thread));
+        },
+      },
+    });
+    response?.next?.();
+    return threads.find(t => t.includes(uid)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchCandidates(client: ImapFlow, mailbox: string, uids: number[]): Promise<ThreadCandidate[]> {
+  if (!uids.length) return [];
+  const candidates: ThreadCandidate[] = [];
+  for await (const msg of client.fetch(uids.slice(-THREAD_CANDIDATE_LIMIT), { uid: true, envelope: true, headers: ["references"] }, { uid: true })) {
+    if (msg) candidates.push(toCandidate(mailbox, msg));
+  }
+  return candidates;
+}
+
+async function searchCandidates(client: ImapFlow, mailbox: string, target: ThreadCandidate): Promise<ThreadCandidate[]> {
+  const ids = [target.messageId, target.inReplyTo, ...target.references].filter((id): id is string => !!id);
+  const base = normalizeSubject(target.subject);
+  const query = [
+    ...ids.map(id => ({ header: { references: id } })),
+    ...ids.map(id => ({ header: { "message-id": id } })),
+    ...(base ? [{ subject: base }] : []),
+  ];
+  if (!query.length) return [];
+  const result = await client.search(query.length === 1 ? query[0] : { or: query }, { uid: true });
+  return fetchCandidates(client, mailbox, Array.isArray(result) ? result : []);
+}
+
+/**
+ * Assemble the conversation containing `uid`: the source mailbox (via THREAD when
+ * advertised, else header/subject search) plus the Sent folder, grouped by
+ * References/In-Reply-To and returned oldest first with quoted history stripped.
+ * Sent is skipped when it is outside the calling agent's read scope.
+ */
+export async function getThread(config: ImapConfig, mailbox: string, uid: number): Promise<ThreadResult> {
+  return withClient(config, async (client) => {
+    let target: ThreadCandidate;
+    let threaded: ThreadCandidate[] | null = null;
+    const candidates: ThreadCandidate[] = [];
+
+    let lock = await client.getMailboxLock(mailbox);
+    try {
+      const msg = await client.fetchOne(String(uid), { uid: true, envelope: true, headers: ["references"] }, { uid: true });
+      if (!msg) throw new Error(`Message UID ${uid} not found`);
+      target = toCandidate(mailbox, msg);
+
+      const threadUids = await serverThread(client, uid);
+      if (threadUids) {
+        threaded = await fetchCandidates(client, mailbox, threadUids);
+      } else {
+        candidates.push(...await searchCandidates(client, mailbox, target));
+      }
+    } finally {
+      lock.release();
+    }
+
+    const sentPath = await findSpecialUse(client, "\\Sent", /^sent$/i);
+    if (sentPath && sentPath !== mailbox && mailboxAllowed(sentPath, "read")) {
+      lock = await client.getMailboxLock(sentPath);
+      try {
+        candidates.push(...await searchCandidates(client, sentPath, target));
+      } finally {
+        lock.release();
+      }
+    }
+
+    // A server THREAD result is authoritative for the source mailbox; Sent messages link in by Message-ID
+    const members = groupThread(target, candidates, threaded ?? []);
+
+    const messages: ThreadMessage[] = [];
+    const byMailbox = new Map<string, ThreadCandidate[]>();
+    for (const m of members) byMailbox.set(m.mailbox, [...(byMailbox.get(m.mailbox) ?? []), m]);
+    for (const [path, group] of byMailbox) {
+      const lock = await client.getMailboxLock(path);
+      try {
+        for await (const msg of client.fetch(group.map(m => m.uid), { uid: true, envelope: true, source: true }, { uid: true })) {
+          if (!msg) continue;
+          const member = group.find(m => m.uid === msg.uid)!;
+          const env: any = msg.envelope || {};
+          const parsed = await simpleParser(msg.source?.toString() || "");
+          messages.push({
+            mailbox: path,
+            uid: msg.uid,
+            from: formatAddrList(env.from),
+            to: formatAddrList(env.to),
+            date: member.date,
+            subject: member.subject,
+            messageId: member.messageId,
+            inReplyTo: member.inReplyTo,
+            references: member.references,
+            text: stripQuoted(parsed.text || ""),
+          });
+        }
+      } finally {
+        lock.release();
+      }
+    }
+
+    messages.sort((a, b) => a.date.localeCompare(b.date));
+    return { method: threaded ? "thread" : "local", messages };
+  });
+}
+
+// --- Drafts ---
+
+// The \Drafts path, checked against the calling agent's mailbox scope (throws ScopeError)
+async function requireDrafts(client: ImapFlow, access: MailboxAccess): Promise<string> {
+  const draftsPath = await findSpecialUse(client, "\\Drafts", /^drafts?$/i);
+  if (!draftsPath) throw new Error("No \\Drafts folder found on server");
+  checkMailboxScope(draftsPath, access);
+  return draftsPath;
+}
+
+async function expungeUid(client: ImapFlow, mailbox: string, uid: number): Promise<boolean> {
+  const lock = await client.getMailboxLock(mailbox);
+  try {
+    return await client.messageDelete(String(uid), { uid: true });
+  } finally {
+    lock.release();
+  }
+}
+
+/** Append a draft to the \Drafts folder; with replaceUid, the old draft is removed once the new one is stored. */
+export async function saveDraft(config: ImapConfig, rawMessage: Buffer | string, replaceUid?: number): Promise<{ mailbox: string; uid?: number }> {
+  return withClient(config, async (client) => {
+    const draftsPath = await requireDrafts(client, "write");
+    if (replaceUid !== undefined) {
+      const lock = await client.getMailboxLock(draftsPath);
+      try {
+        const existing = await client.fetchOne(String(replaceUid), { uid: true }, { uid: true });
+        if (!existing) throw new Error(`Draft UID ${replaceUid} not found`);
+      } finally {
+        lock.release();
+      }
+    }
+    const res = await client.append(draftsPath, rawMessage, ["\\Draft", "\\Seen"]);
+    if (!res) throw new Error(`Failed to append draft to ${draftsPath}`);
+    if (replaceUid !== undefined) await expungeUid(client, draftsPath, replaceUid);
+    return { mailbox: draftsPath, uid: res.uid };
+  });
+}
+
+export async function listDrafts(config: ImapConfig, limit = 20, offset = 0): Promise<{ mailbox: string; drafts: EmailEnvelope[] }> {
+  return withClient(config, async (client) => {
+    const draftsPath = await requireDrafts(client, "read");
+    return { mailbox: draftsPath, drafts: await fetchNewest(client, draftsPath, limit, offset) };
+  });
+}
+
+/** Raw source of a draft about to be sent. Sending removes the draft, so this needs write access. */
+export async function getDraftSource(config: ImapConfig, uid: number): Promise<Buffer> {
+  return withClient(config, async (client) => {
+    const draftsPath = await requireDrafts(client, "write");
+    const lock = await client.getMailboxLock(draftsPath);
+    try {
+      const msg = await client.fetchOne(String(uid), { uid: true, source: true }, { uid: true });
+      if (!msg || !msg.source) throw new Error(`Draft UID ${uid} not found`);
+      return msg.source;
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+export async function deleteDraft(config: ImapConfig, uid: number): Promise<boolean> {
+  return withClient(config, async (client) => expungeUid(client, await requireDrafts(client, "write"), uid));
+}
+
+function toMoveResult(source: string, res: CopyResponseObject): MoveResult {
+  return {
+    source,
+    destination: res.destination ?? null,
+    ...(res.uidMap ? { uidMap: Object.fromEntries(res.uidMap) } : {}),
+  };
+}
+
+async function transfer(client: ImapFlow, op: "move" | "copy", mailbox: string, uids: number[], destination: string): Promise<MoveResult> {
+  if (mailbox === destination) throw new Error(`Source and destination are both ${mailbox}`);
+  const lock = await client.getMailboxLock(mailbox);
+  try {
+    const res = op === "move"
+      ? await client.messageMove(uids, destination, { uid: true })
+      : await client.messageCopy(uids, destination, { uid: true });
+    if (!res) throw new Error(`Failed to ${op} messages to ${destination}`);
+    return toMoveResult(mailbox, res);
+  } finally {
+    lock.release();
+  }
+}
+
+export async function moveMessages(config: ImapConfig, mailbox: string, uids: number[], destination: string): Promise<MoveResult> {
+  return withClient(config, (client) => transfer(client, "move", mailbox, uids, destination));
+}
+
+export async function copyMessages(config: ImapConfig, mailbox: string, uids: number[], destination: string): Promise<MoveResult> {
+  return withClient(config, (client) => transfer(client, "copy", mailbox, uids, destination));
+}
+
+export async function archiveMessages(config: ImapConfig, mailbox: string, uids: number[]): Promise<MoveResult> {
+  return withClient(config, async (client) => {
+    const archivePath = await findSpecialUse(client, "\\Archive", /^archives?$/i);
+    if (!archivePath) throw new Error("No \\Archive folder found on server");
+    checkMailboxScope(archivePath, "write");
+    return transfer(client, "move", mailbox, uids, archivePath);
+  });
+}
+
+export async function deleteMessages(config: ImapConfig, mailbox: string, uids: number[], permanent = false): Promise<MoveResult> {
+  return withClient(config, async (client) => {
+    if (!permanent) {
+      const trashPath = await findSpecialUse(client, "\\Trash", /^(trash|deleted( items| messages)?)$/i);
+      if (!trashPath) throw new Error("No \\Trash folder found on server (use permanent=true to expunge)");
+      if (trashPath === mailbox) throw new Error(`Messages are already in ${trashPath} (use permanent=true to expunge)`);
+      checkMailboxScope(trashPath, "write");
+      return transfer(client, "move", mailbox, uids, trashPath);
+    }
+
+    const lock = await client.getMailboxLock(mailbox);
+    try {
+      // Sets \Deleted and expunges (UID EXPUNGE when UIDPLUS is available, so only these UIDs go)
+      const expunged = await client.messageDelete(uids, { uid: true });
+      return { source: mailbox, destination: null, expunged };
+    } finally {
+      lock.release();
+    }
   });
 }
 /* eslint-enable @typescript-eslint/no-explicit-any */
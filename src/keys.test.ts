@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, statSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { generateApiKey, hashApiKey, verifyApiKey, keyIdOf, isExpired, isWellFormedKey, parseKeyValue, formatKeyValue } from "./keys.js";
+
+let testDir: string;
+
+function writeEmailEnv(agent: string, lines: string[]) {
+  mkdirSync(join(testDir, agent), { recursive: true });
+  writeFileSync(join(testDir, agent, "email.env"), [...lines, "IMAP_USER=u@biz.com", "IMAP_PASS=secret"].join("\n"));
+}
+
+describe("keys", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    testDir = join(tmpdir(), `fagents-keys-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    process.env.AGENTS_DIR = testDir;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.AGENTS_DIR;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("hashes with a random salt and verifies hashed and plain values", async () => {
+    const { id, key } = generateApiKey();
+    expect(keyIdOf(key)).toBe(id);
+    expect(keyIdOf("key-coo-123")).toBeNull();
+
+    const hash = hashApiKey(key);
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(hash).not.toContain(key);
+    expect(hashApiKey(key)).not.toBe(hash);
+    expect(await verifyApiKey(key, hash)).toBe(true);
+    expect(await verifyApiKey(key, hash)).toBe(true); // cached
+    expect(await verifyApiKey(key + "x", hash)).toBe(false);
+    expect(await verifyApiKey("key-coo-123", "key-coo-123")).toBe(true);
+    expect(await verifyApiKey("", "")).toBe(false);
+  });
+
+  it("rejects malformed keys and caps hash checks for keys not in the generated format", async () => {
+    const { key } = generateApiKey();
+    expect(isWellFormedKey(key)).toBe(true);
+    expect(isWellFormedKey("key-coo-123")).toBe(true);
+    expect(isWellFormedKey("")).toBe(false);
+    expect(isWellFormedKey("k".repeat(300))).toBe(false);
+    expect(isWellFormedKey("key with spaces")).toBe(false);
+    expect(isWellFormedKey(key.slice(0, -1))).toBe(false);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2030-01-01T00:00:00Z"));
+    const hash = hashApiKey("key-coo-123");
+    for (let i = 0; i < 20; i++) expect(await verifyApiKey(`wrong-${i}`, hash)).toBe(false);
+    expect(await verifyApiKey("key-coo-123", hash)).toBe(false); // this second's budget is spent
+    const generatedHash = hashApiKey(key);
+    expect(await verifyApiKey(key, generatedHash)).toBe(true); // generated keys aren't capped
+    vi.setSystemTime(Date.parse("2030-01-01T00:00:01Z"));
+    expect(await verifyApiKey("key-coo-123", hash)).toBe(true);
+  });
+
+  it("parses expiry from keys.env values", () => {
+    const record = parseKeyValue("ab12cd34", "scrypt$1$2$3$s$h expires=2026-01-01T00:00:00.000Z");
+    expect(record).toEqual({ id: "ab12cd34", hash: "scrypt$1$2$3$s$h", expiresAt: "2026-01-01T00:00:00.000Z" });
+    expect(formatKeyValue(record)).toBe("scrypt$1$2$3$s$h expires=2026-01-01T00:00:00.000Z");
+    expect(isExpired(record, Date.parse("2025-12-31T23:59:59Z"))).toBe(false);
+    expect(isExpired(record, Date.parse("2026-01-01T00:00:00Z"))).toBe(true);
+  });
+
+  it("generates keys into keys.env and resolves them to the agent", async () => {
+    writeEmailEnv("coo", ["IMAP_HOST=imap.biz.com"]);
+    writeEmailEnv("dev", ["MCP_API_KEY=key-dev-456", "IMAP_HOST=imap.biz.com"]);
+    const { generateKey } = await import("./cli.js");
+    const first = generateKey("coo");
+    const second = generateKey("coo", { expires: "1h" });
+
+    const file = join(testDir, "coo", "keys.env");
+    const content = readFileSync(file, "utf-8");
+    expect(content).not.toContain(first.key);
+    expect(content).toContain(`MCP_KEY_${second.id}=scrypt$`);
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+
+    const { resolveAgentByApiKey } = await import("./config.js");
+    expect(await resolveAgentByApiKey(first.key)).toBe("coo");
+    expect(await resolveAgentByApiKey(second.key)).toBe("coo");
+    expect(await resolveAgentByApiKey("key-dev-456")).toBe("dev");
+    expect(await resolveAgentByApiKey(first.key.slice(0, -1) + "A")).toBeNull();
+    expect(await resolveAgentByApiKey("")).toBeNull();
+    expect(() => generateKey("../coo")).toThrow(/Invalid agent id/);
+    expect(() => generateKey("cfo")).toThrow(/Unknown agent/);
+  });
+
+  it("rotates with a grace period, migrating a plain MCP_API_KEY, and revokes", async () => {
+    writeEmailEnv("coo", ["# coo mailbox", "MCP_API_KEY=key-coo-123", "IMAP_HOST=imap.biz.com"]);
+    const { rotateKeys, revokeKey, listKeys } = await import("./cli.js");
+    const rotated = rotateKeys("coo", 60_000);
+
+    expect(readFileSync(join(testDir, "coo", "email.env"), "utf-8")).toBe("# coo mailbox\nIMAP_HOST=imap.biz.com\nIMAP_USER=u@biz.com\nIMAP_PASS=secret");
+    expect(rotated.retiring).toHaveLength(1);
+    expect(rotated.retiring[0].id).toBe("legacy");
+    const keys = listKeys("coo");
+    expect(keys.map(k => k.id)).toEqual(["legacy", rotated.id]);
+    expect(Date.parse(keys[0].expiresAt!)).toBeGreaterThan(Date.now());
+
+    const { resolveAgentByApiKey } = await import("./config.js");
+    expect(await resolveAgentByApiKey("key-coo-123")).toBe("coo");
+    expect(await resolveAgentByApiKey(rotated.key)).toBe("coo");
+
+    expect(revokeKey("coo", "legacy")).toBe(true);
+    expect(revokeKey("coo", "legacy")).toBe(false);
+    expect(listKeys("coo").map(k => k.id)).toEqual([rotated.id]);
+  });
+
+  it("keeps MCP_API_KEY in email.env when keys.env can't be written", async () => {
+    writeEmailEnv("coo", ["MCP_API_KEY=key-coo-123", "IMAP_HOST=imap.biz.com"]);
+    mkdirSync(join(testDir, "coo", "keys.env.tmp")); // the keys.env write fails
+    const { rotateKeys } = await import("./cli.js");
+
+    expect(() => rotateKeys("coo", 60_000)).toThrow();
+    expect(readFileSync(join(testDir, "coo", "email.env"), "utf-8")).toContain("MCP_API_KEY=key-coo-123");
+    const { resolveAgentByApiKey } = await import("./config.js");
+    expect(await resolveAgentByApiKey("key-coo-123")).toBe("coo");
+  });
+
+  it("rejects keys once they expire", async () => {
+    writeEmailEnv("coo", ["IMAP_HOST=imap.biz.com"]);
+    const { generateKey } = await import("./cli.js");
+    const generated = generateKey("coo");
+    const expired = generateKey("coo", { expires: "2020-01-01T00:00:00Z" });
+    const { resolveAgentByApiKey } = await import("./config.js");
+    expect(await resolveAgentByApiKey(generated.key)).toBe("coo");
+    expect(await resolveAgentByApiKey(expired.key)).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { createHash, randomBytes, scrypt, scryptSync, timingSafeEqual } from "crypto";
+import type { ApiKeyRecord } from "./types.js";
+
+// --- API keys: generation, salted scrypt hashing, verification ---
+// Generated keys look like "fmcp_<id>_<secret>"; the id selects the stored hash, so a
+// request costs one scrypt, not one per agent. Stored form:
+//   scrypt$<N>$<r>$<p>$<salt>$<hash>            (salt/hash base64url)
+// Plain stored values (legacy MCP_API_KEY) are still compared in constant time.
+// Verification runs scrypt off the event loop; malformed keys are rejected before any
+// scrypt, and checks of keys in another format are capped per second, since such a key
+// may be tried against every agent's hashed legacy key.
+
+const SCRYPT = { N: 16384, r: 8, p: 1 };
+const KEY_RE = /^fmcp_([0-9a-f]{8})_[A-Za-z0-9_-]{43}$/;
+const MAX_KEY_LENGTH = 256;
+const LEGACY_CHECKS_PER_SECOND = 20;
+
+// Successful verifications, keyed by a digest of (stored hash, presented key), so repeat
+// requests skip scrypt. A revoked or expired key never reaches verification.
+const verified = new Set<string>();
+const VERIFIED_MAX = 1000;
+
+let legacyWindow = { start: 0, checks: 0 };
+
+/** New random key and its id. The key is shown once; only its hash is stored. */
+export function generateApiKey(): { id: string; key: string } {
+  const id = randomBytes(4).toString("hex");
+  return { id, key: `fmcp_${id}_${randomBytes(32).toString("base64url")}` };
+}
+
+/** Key id embedded in a generated key, or null for keys in another format. */
+export function keyIdOf(key: string): string | null {
+  return KEY_RE.exec(key)?.[1] ?? null;
+}
+
+/**
+ * Whether `key` is worth checking at all: printable ASCII, not overly long, and — when it
+ * starts with "fmcp_" — a complete generated key.
+ */
+export function isWellFormedKey(key: string): boolean {
+  if (!key || key.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) return false;
+  return !key.startsWith("fmcp_") || KEY_RE.test(key);
+}
+
+export function isHashed(stored: string): boolean {
+  return stored.startsWith("scrypt$");
+}
+
+export function hashApiKey(key: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(key, salt, 32, SCRYPT);
+  return `scrypt$${SCRYPT.N}$${SCRYPT.r}$${SCRYPT.p}$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+// Take one scrypt check from this second's budget for keys not in the generated format
+function takeLegacyCheck(now = Date.now()): boolean {
+  if (now - legacyWindow.start >= 1000) legacyWindow = { start: now, checks: 0 };
+  if (legacyWindow.checks >= LEGACY_CHECKS_PER_SECOND) return false;
+  legacyWindow.checks++;
+  return true;
+}
+
+function deriveKey(key: string, salt: Buffer, length: number, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(key, salt, length, params, (error, derived) => (error ? reject(error) : resolve(derived)));
+  });
+}
+
+/** Check a presented key against a stored value — a scrypt hash, or a legacy plain key. */
+export async function verifyApiKey(key: string, stored: string): Promise<boolean> {
+  if (!stored || !isWellFormedKey(key)) return false;
+  if (!isHashed(stored)) {
+    const a = Buffer.from(key);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const cacheKey = createHash("sha256").update(stored).update("\0").update(key).digest("hex");
+  if (verified.has(cacheKey)) return true;
+
+  const [, n, r, p, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash ?? "", "base64url");
+  if (!salt || expected.length === 0) return false;
+  if (!keyIdOf(key) && !takeLegacyCheck()) return false;
+  let actual: Buffer;
+  try {
+    actual = await deriveKey(key, Buffer.from(salt, "base64url"), expected.length, { N: Number(n), r: Number(r), p: Number(p) });
+  } catch {
+    return false; // malformed parameters
+  }
+  if (!timingSafeEqual(actual, expected)) return false;
+
+  if (verified.size >= VERIFIED_MAX) verified.delete(verified.values().next().value!);
+  verified.add(cacheKey);
+  return true;
+}
+
+export function isExpired(record: ApiKeyRecord, now = Date.now()): boolean {
+  return record.expiresAt !== undefined && Date.parse(record.expiresAt) <= now;
+}
+
+// keys.env line value: "<hash>" or "<hash> expires=<iso>"
+export function parseKeyValue(id: string, value: string): ApiKeyRecord {
+  const [hash, ...rest] = value.trim().split(/\s+/);
+  const expires = rest.find(part => part.startsWith("expires="))?.slice("expires=".length);
+  return { id, hash, ...(expires ? { expiresAt: expires } : {}) };
+}
+
+export function formatKeyValue(record: ApiKeyRecord): string {
+  return record.expiresAt ? `${record.hash} expires=${record.expiresAt}` : record.hash;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, rmSync, readdirSync, statSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import * as outbox from "./outbox.js";
+
+let testDir: string;
+const message = { to: "alice@example.com", subject: "Hello", body: "Hi Alice" };
+
+describe("outbox", () => {
+  beforeEach(() => {
+    testDir = join(tmpdir(), `fagents-outbox-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    process.env.OUTBOX_DIR = testDir;
+  });
+
+  afterEach(() => {
+    delete process.env.OUTBOX_DIR;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("persists pending items to disk", () => {
+    const item = outbox.enqueue("coo", "send_email", message);
+    expect(item.status).toBe("pending");
+    expect(readdirSync(testDir)).toEqual([`${item.id}.json`]);
+    expect(statSync(join(testDir, `${item.id}.json`)).mode & 0o777).toBe(0o600);
+    // A fresh read (e.g. after restart) sees the same item
+    expect(outbox.getItem(item.id)).toEqual(item);
+  });
+
+  it("lists items filtered by status and agent", () => {
+    const a = outbox.enqueue("coo", "send_email", message);
+    outbox.enqueue("dev", "send_email", message);
+    outbox.decide(a.id, "rejected", "wrong tone");
+    expect(outbox.listItems({ status: "pending" }).map(i => i.agentId)).toEqual(["dev"]);
+    expect(outbox.listItems({ agentId: "coo" })[0]).toMatchObject({ status: "rejected", reason: "wrong tone" });
+  });
+
+  it("only decides pending items once", () => {
+    const item = outbox.enqueue("coo", "send_email", message);
+    outbox.decide(item.id, "approved");
+    expect(() => outbox.decide(item.id, "approved")).toThrow(/already approved/);
+    expect(() => outbox.decide(item.id, "rejected")).toThrow(/already approved/);
+  });
+
+  it("records send outcome", () => {
+    const item = outbox.decide(outbox.enqueue(null, "send_email", message).id, "approved");
+    const sent = outbox.complete(item, { result: { messageId: "<m@x>", accepted: ["alice@example.com"], rejected: [] } });
+    expect(outbox.getItem(item.id)).toEqual(sent);
+    expect(outbox.summarize(sent)).toMatchObject({ status: "sent", result: { messageId: "<m@x>" } });
+    expect(outbox.summarize(sent)).not.toHaveProperty("body");
+  });
+
+  it("stores the digest of a queued draft", () => {
+    const item = outbox.enqueue("coo", "send_draft", message, { uid: 7, digest: outbox.draftDigest("From: a\r\n\r\nv1") });
+    expect(outbox.getItem(item.id)).toMatchObject({ draftUid: 7, draftDigest: outbox.draftDigest(Buffer.from("From: a\r\n\r\nv1")) });
+    expect(item.draftDigest).not.toBe(outbox.draftDigest("From: a\r\n\r\nv2"));
+  });
+
+  it("marks items interrupted mid-send as failed", () => {
+    const sending = outbox.decide(outbox.enqueue("coo", "send_email", message).id, "approved");
+    const pending = outbox.enqueue("coo", "send_email", message);
+    expect(outbox.failInterrupted().map(i => i.id)).toEqual([sending.id]);
+    expect(outbox.getItem(sending.id)).toMatchObject({ status: "failed", error: expect.stringContaining("Interrupted") });
+    expect(outbox.getItem(pending.id)!.status).toBe("pending");
+    expect(outbox.failInterrupted()).toEqual([]);
+  });
+
+  it("rejects ids that are not outbox UUIDs", () => {
+    expect(outbox.getItem("../../etc/passwd")).toBeNull();
+    expect(() => outbox.decide("../x", "approved")).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,136 @@
+import { readFileSync, writeFileSync, readdirSync, mkdirSync, renameSync, existsSync } from "fs";
+import { resolve, join } from "path";
+import { createHash, randomUUID } from "crypto";
+import type { EmailMessage, EmailSendResult } from "./types.js";
+
+// --- Outbox: sends held for human approval, persisted one JSON file per item ---
+// Files survive restarts; status moves pending → approved → sent|failed, or pending → rejected.
+// An item still "approved" at startup was interrupted mid-send and is marked failed.
+
+export type OutboxStatus = "pending" | "approved" | "sent" | "failed" | "rejected";
+
+export interface OutboxItem {
+  id: string;
+  agentId: string | null;
+  tool: string;
+  status: OutboxStatus;
+  message: EmailMessage;
+  /** Draft to remove once sent (send_draft under approval) */
+  draftUid?: number;
+  /** draftDigest of the draft's source when queued; approval fails if the draft has changed */
+  draftDigest?: string;
+  createdAt: string;
+  decidedAt?: string;
+  reason?: string;
+  result?: EmailSendResult;
+  error?: string;
+}
+
+function outboxDir(): string {
+  return process.env.OUTBOX_DIR || resolve(process.cwd(), "data/outbox");
+}
+
+function itemPath(id: string): string {
+  // ids are UUIDs we generate — reject anything else so :id can't escape the directory
+  if (!/^[0-9a-f-]{36}$/.test(id)) throw new Error(`Invalid outbox id: ${id}`);
+  return join(outboxDir(), `${id}.json`);
+}
+
+function writeItem(item: OutboxItem): void {
+  mkdirSync(outboxDir(), { recursive: true, mode: 0o700 });
+  const path = itemPath(item.id);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(item, null, 2), { mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+/** Fingerprint of a draft's raw source, to tell whether it changed while queued. */
+export function draftDigest(source: Buffer | string): string {
+  return createHash("sha256").update(source).digest("hex");
+}
+
+export function enqueue(agentId: string | null, tool: string, message: EmailMessage, draft?: { uid: number; digest: string }): OutboxItem {
+  const item: OutboxItem = {
+    id: randomUUID(),
+    agentId,
+    tool,
+    status: "pending",
+    message,
+    ...(draft ? { draftUid: draft.uid, draftDigest: draft.digest } : {}),
+    createdAt: new Date().toISOString(),
+  };
+  writeItem(item);
+  return item;
+}
+
+export function getItem(id: string): OutboxItem | null {
+  let path: string;
+  try {
+    path = itemPath(id);
+  } catch {
+    return null;
+  }
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, "utf-8")) as OutboxItem;
+}
+
+export function listItems(filter: { status?: OutboxStatus; agentId?: string } = {}): OutboxItem[] {
+  let files: string[];
+  try {
+    files = readdirSync(outboxDir()).filter(f => f.endsWith(".json"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  return files
+    .map(f => JSON.parse(readFileSync(join(outboxDir(), f), "utf-8")) as OutboxItem)
+    .filter(item => (!filter.status || item.status === filter.status) && (!filter.agentId || item.agentId === filter.agentId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Move a pending item to its decided state. Synchronous read-check-write, so two
+ * concurrent approvals can't both see "pending".
+ */
+export function decide(id: string, status: "approved" | "rejected", reason?: string): OutboxItem {
+  const item = getItem(id);
+  if (!item) throw new Error(`Outbox item not found: ${id}`);
+  if (item.status !== "pending") throw new Error(`Outbox item ${id} is already ${item.status}`);
+  const decided: OutboxItem = { ...item, status, decidedAt: new Date().toISOString(), ...(reason ? { reason } : {}) };
+  writeItem(decided);
+  return decided;
+}
+
+export function complete(item: OutboxItem, outcome: { result: EmailSendResult } | { error: string }): OutboxItem {
+  const done: OutboxItem = "result" in outcome
+    ? { ...item, status: "sent", result: outcome.result }
+    : { ...item, status: "failed", error: outcome.error };
+  writeItem(done);
+  return done;
+}
+
+/**
+ * Mark items left "approved" by a crash or restart as failed. The send may or may not have
+ * gone out, so they are not retried; the error says to check Sent before re-queueing.
+ */
+export function failInterrupted(): OutboxItem[] {
+  return listItems({ status: "approved" }).map(item =>
+    complete(item, { error: "Interrupted by a server restart during send; check the Sent folder before sending again" }),
+  );
+}
+
+/** Agent-facing view: status and headline fields, without body or attachment content. */
+export function summarize(item: OutboxItem) {
+  return {
+    id: item.id,
+    status: item.status,
+    to: item.message.to,
+    ...(item.message.cc ? { cc: item.message.cc } : {}),
+    subject: item.message.subject,
+    createdAt: item.createdAt,
+    ...(item.decidedAt ? { decidedAt: item.decidedAt } : {}),
+    ...(item.reason ? { reason: item.reason } : {}),
+    ...(item.result ? { result: item.result } : {}),
+    ...(item.error ? { error: item.error } : {}),
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { checkSendPolicy, enforceSendPolicy, matchesPattern, reserveSend, PolicyViolationError } from "./policy.js";
+import { runWithAgent } from "./config.js";
+import type { SendPolicy } from "./policy.js";
+
+const open: SendPolicy = { allow: [], deny: [], requireApproval: false };
+const message = { to: "alice@example.com", cc: "Bob <bob@partner.io>", subject: "Hi", body: "x" };
+
+describe("matchesPattern", () => {
+  it("matches addresses, domains and wildcard subdomains", () => {
+    expect(matchesPattern("a@biz.com", "a@biz.com")).toBe(true);
+    expect(matchesPattern("a@biz.com", "b@biz.com")).toBe(false);
+    expect(matchesPattern("a@biz.com", "biz.com")).toBe(true);
+    expect(matchesPattern("a@biz.com", "@biz.com")).toBe(true);
+    expect(matchesPattern("a@mail.biz.com", "biz.com")).toBe(false);
+    expect(matchesPattern("a@mail.biz.com", "*.biz.com")).toBe(true);
+  });
+});
+
+describe("checkSendPolicy", () => {
+  it("allows everything under an empty policy", () => {
+    expect(checkSendPolicy(message, open)).toEqual([]);
+  });
+
+  it("enforces deny and allow lists", () => {
+    const violations = checkSendPolicy(message, { ...open, allow: ["example.com"], deny: ["alice@example.com"] });
+    expect(violations.map(v => v.rule)).toEqual(["deny_list", "allow_list"]);
+    expect(violations[1].message).toContain("bob@partner.io");
+  });
+
+  it("enforces max recipients and attachment size", () => {
+    const withAttachment = { ...message, attachments: [{ filename: "a.bin", content: Buffer.alloc(100).toString("base64") }] };
+    const violations = checkSendPolicy(withAttachment, { ...open, maxRecipients: 1, maxAttachmentBytes: 99 });
+    expect(violations.map(v => v.rule)).toEqual(["max_recipients", "max_attachment_size"]);
+  });
+
+  it("counts recorded sends per agent against rate limits", () => {
+    const policy = { ...open, ratePerHour: 2, ratePerDay: 3 };
+    const now = Date.now();
+    runWithAgent("rate-a", () => {
+      reserveSend(now - 2 * 60 * 60 * 1000);
+      reserveSend(now - 1000);
+      expect(checkSendPolicy(message, policy, now)).toEqual([]);
+      reserveSend(now - 500);
+      expect(checkSendPolicy(message, policy, now).map(v => v.message)).toEqual([
+        "Hourly send limit of 2 reached",
+        "Daily send limit of 3 reached",
+      ]);
+    });
+    runWithAgent("rate-b", () => {
+      expect(checkSendPolicy(message, policy, now)).toEqual([]);
+    });
+  });
+
+  it("does not treat require-approval mode as a violation", () => {
+    expect(checkSendPolicy(message, { ...open, requireApproval: true })).toEqual([]);
+  });
+});
+
+describe("enforceSendPolicy", () => {
+  afterEach(() => {
+    delete process.env.SEND_RATE_PER_HOUR;
+  });
+
+  it("reserves the rate-limit slot when it checks, so sends in flight count", () => {
+    process.env.SEND_RATE_PER_HOUR = "2";
+    runWithAgent("rate-c", () => {
+      const first = enforceSendPolicy(message);
+      const second = enforceSendPolicy(message);
+      expect(() => enforceSendPolicy(message)).toThrow("Hourly send limit of 2 reached");
+
+      if (first.requireApproval || second.requireApproval) throw new Error("expected direct sends");
+      first.reservation.release(); // that send failed
+      first.reservation.release();
+      expect(enforceSendPolicy(message)).toMatchObject({ requireApproval: false });
+      expect(() => enforceSendPolicy(message)).toThrow(PolicyViolationError);
+    });
+  });
+});
+
+describe("PolicyViolationError", () => {
+  it("serializes to a structured error", () => {
+    const err = new PolicyViolationError([{ rule: "max_recipients", message: "too many" }]);
+    expect(JSON.parse(JSON.stringify(err))).toEqual({
+      error: "Send blocked by policy: too many",
+      code: "policy_violation",
+      violations: [{ rule: "max_recipients", message: "too many" }],
+    });
+  });
+});
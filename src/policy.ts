@@ -0,0 +1,167 @@
+import addressparser from "nodemailer/lib/addressparser/index.js";
+import { getEnv, getCurrentAgentId } from "./config.js";
+import type { EmailMessage } from "./types.js";
+
+// --- Outbound send policy ---
+// Per-agent keys come from .agents/<id>/policy.env (or process env in single-agent mode):
+//   SEND_ALLOW / SEND_DENY           comma-separated addresses or domains (biz.com, @biz.com, *.biz.com)
+//   SEND_MAX_RECIPIENTS              max To+Cc+Bcc addresses per message
+//   SEND_MAX_ATTACHMENT_BYTES        max total decoded attachment size per message
+//   SEND_RATE_PER_HOUR / _PER_DAY    max messages sent in a rolling hour / day
+//   SEND_REQUIRE_APPROVAL            "true" to hold sends in the outbox until a human approves
+
+export interface SendPolicy {
+  allow: string[];
+  deny: string[];
+  maxRecipients?: number;
+  maxAttachmentBytes?: number;
+  ratePerHour?: number;
+  ratePerDay?: number;
+  requireApproval: boolean;
+}
+
+export type PolicyRule = "deny_list" | "allow_list" | "max_recipients" | "max_attachment_size" | "rate_limit";
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+export class PolicyViolationError extends Error {
+  constructor(public violations: PolicyViolation[]) {
+    super(`Send blocked by policy: ${violations.map(v => v.message).join("; ")}`);
+    this.name = "PolicyViolationError";
+  }
+
+  toJSON() {
+    return { error: this.message, code: "policy_violation", violations: this.violations };
+  }
+}
+
+function parseList(key: string): string[] {
+  return (getEnv(key) ?? "").split(",").map(s => s.trim().toLowerCase()).filter(Boolean);
+}
+
+function parseLimit(key: string): number | undefined {
+  const raw = getEnv(key);
+  if (raw === undefined || raw === "") return undefined;
+  const n = parseInt(raw, 10);
+  if (isNaN(n) || n < 0) throw new Error(`Invalid ${key}: ${raw}`);
+  return n;
+}
+
+export function getSendPolicy(): SendPolicy {
+  return {
+    allow: parseList("SEND_ALLOW"),
+    deny: parseList("SEND_DENY"),
+    maxRecipients: parseLimit("SEND_MAX_RECIPIENTS"),
+    maxAttachmentBytes: parseLimit("SEND_MAX_ATTACHMENT_BYTES"),
+    ratePerHour: parseLimit("SEND_RATE_PER_HOUR"),
+    ratePerDay: parseLimit("SEND_RATE_PER_DAY"),
+    requireApproval: getEnv("SEND_REQUIRE_APPROVAL") === "true",
+  };
+}
+
+export function recipientsOf(message: EmailMessage): string[] {
+  return [message.to, message.cc, message.bcc]
+    .filter((f): f is string => !!f)
+    .flatMap(f => addressparser(f, { flatten: true }))
+    .map(a => a.address.toLowerCase())
+    .filter(Boolean);
+}
+
+/** Address/domain pattern match: "a@b.com" exact, "b.com" or "@b.com" domain, "*.b.com" domain and subdomains. */
+export function matchesPattern(address: string, pattern: string): boolean {
+  const domain = address.slice(address.lastIndexOf("@") + 1);
+  if (pattern.startsWith("*.")) {
+    const base = pattern.slice(2);
+    return domain === base || domain.endsWith(`.${base}`);
+  }
+  if (pattern.startsWith("@")) return domain === pattern.slice(1);
+  if (pattern.includes("@")) return address === pattern;
+  return domain === pattern;
+}
+
+// --- Rate limiting (in-memory, rolling windows per agent) ---
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const sendLog = new Map<string, number[]>();
+
+function recentSends(agentId: string, now: number): number[] {
+  const recent = (sendLog.get(agentId) ?? []).filter(t => now - t < DAY_MS);
+  sendLog.set(agentId, recent);
+  return recent;
+}
+
+/** A send counted against the agent's rate limits; release() takes it back when the send fails. */
+export interface SendReservation {
+  release(): void;
+}
+
+/** Count a send by the current agent at `now`. */
+export function reserveSend(now = Date.now()): SendReservation {
+  const agentId = getCurrentAgentId() ?? "default";
+  recentSends(agentId, now).push(now);
+  let released = false;
+  return {
+    release: () => {
+      if (released) return;
+      released = true;
+      const sends = sendLog.get(agentId) ?? [];
+      const i = sends.indexOf(now);
+      if (i >= 0) sends.splice(i, 1);
+    },
+  };
+}
+
+/** Collect every rule the message breaks (empty when allowed). Rate limits count sends reserved via reserveSend. */
+export function checkSendPolicy(message: EmailMessage, policy: SendPolicy, now = Date.now()): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const recipients = recipientsOf(message);
+
+  const denied = recipients.filter(r => policy.deny.some(p => matchesPattern(r, p)));
+  if (denied.length) {
+    violations.push({ rule: "deny_list", message: `Recipients denied: ${denied.join(", ")}` });
+  }
+  if (policy.allow.length) {
+    const notAllowed = recipients.filter(r => !policy.allow.some(p => matchesPattern(r, p)));
+    if (notAllowed.length) {
+      violations.push({ rule: "allow_list", message: `Recipients not on allow list: ${notAllowed.join(", ")}` });
+    }
+  }
+  if (policy.maxRecipients !== undefined && recipients.length > policy.maxRecipients) {
+    violations.push({ rule: "max_recipients", message: `${recipients.length} recipients exceeds limit of ${policy.maxRecipients}` });
+  }
+  if (policy.maxAttachmentBytes !== undefined) {
+    const bytes = (message.attachments ?? []).reduce((n, a) => n + Buffer.byteLength(a.content, "base64"), 0);
+    if (bytes > policy.maxAttachmentBytes) {
+      violations.push({ rule: "max_attachment_size", message: `Attachments total ${bytes} bytes, limit is ${policy.maxAttachmentBytes}` });
+    }
+  }
+  if (policy.ratePerHour !== undefined || policy.ratePerDay !== undefined) {
+    const recent = recentSends(getCurrentAgentId() ?? "default", now);
+    const lastHour = recent.filter(t => now - t < HOUR_MS).length;
+    if (policy.ratePerHour !== undefined && lastHour >= policy.ratePerHour) {
+      violations.push({ rule: "rate_limit", message: `Hourly send limit of ${policy.ratePerHour} reached` });
+    }
+    if (policy.ratePerDay !== undefined && recent.length >= policy.ratePerDay) {
+      violations.push({ rule: "rate_limit", message: `Daily send limit of ${policy.ratePerDay} reached` });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Throw PolicyViolationError if the current agent's policy blocks this message.
+ * Otherwise report whether it must be held for human approval. A message sent now is
+ * counted against the rate limits in the same step as the check, so concurrent sends
+ * can't all pass it; the caller releases the reservation if the send fails.
+ */
+export function enforceSendPolicy(message: EmailMessage): { requireApproval: true } | { requireApproval: false; reservation: SendReservation } {
+  const policy = getSendPolicy();
+  const violations = checkSendPolicy(message, policy);
+  if (violations.length) throw new PolicyViolationError(violations);
+  if (policy.requireApproval) return { requireApproval: true };
+  return { requireApproval: false, reservation: reserveSend() };
+}
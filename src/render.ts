@@ -0,0 +1,304 @@
+import { Parser } from "htmlparser2";
+import { sanitizeHtml, sanitizeText } from "./sanitize.js";
+import { stripQuoted } from "./thread.js";
+import type { EmailFull } from "./types.js";
+
+// --- Body rendering for LLM consumption (pure — no IMAP access) ---
+// HTML mail becomes markdown (or plain text): links kept, images reduced to their alt
+// text, tracking pixels, styles, scripts and hidden elements dropped. Bodies are paged
+// by character offset so a newsletter can't flood the caller's context.
+
+export const BODY_FORMATS = ["text", "markdown", "html"] as const;
+export type BodyFormat = (typeof BODY_FORMATS)[number];
+
+export const DEFAULT_MAX_CHARS = 20000;
+
+export interface BodyOptions {
+  format: BodyFormat;
+  stripQuoted?: boolean;
+  stripSignature?: boolean;
+  /** Character offset to start from (for paging) */
+  offset?: number;
+  maxChars?: number;
+}
+
+export interface RenderedBody extends TextPage {
+  format: BodyFormat;
+}
+
+const SKIPPED = new Set(["head", "title", "style", "script", "noscript", "template", "svg", "object", "iframe"]);
+const VOID = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+const BLOCK = new Set([
+  "p", "div", "section", "article", "header", "footer", "main", "aside", "nav", "table", "thead", "tbody",
+  "tfoot", "ul", "ol", "dl", "dt", "dd", "center", "form", "fieldset", "figure", "figcaption", "address",
+]);
+const HIDDEN_STYLE_RE = /display\s*:\s*none|visibility\s*:\s*hidden|(?:font-size|max-height|opacity)\s*:\s*0(?![.\d]*[1-9])/i;
+const SAFE_HREF_RE = /^(https?:|mailto:)/i;
+
+function isHidden(attribs: Record<string, string>): boolean {
+  return "hidden" in attribs || attribs["aria-hidden"] === "true" || HIDDEN_STYLE_RE.test(attribs.style ?? "");
+}
+
+// Width/height of 0 or 1 (attribute or inline style) marks a tracking pixel
+function isPixel(attribs: Record<string, string>): boolean {
+  const size = (name: string) => {
+    const match = attribs[name] ?? new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([\\d.]+)`, "i").exec(attribs.style ?? "")?.[1];
+    return match === undefined ? undefined : parseFloat(match);
+  };
+  const w = size("width");
+  const h = size("height");
+  return (w !== undefined && w <= 1) || (h !== undefined && h <= 1);
+}
+
+/**
+ * Convert HTML to markdown, or to plain text with `plain: true` (no emphasis or heading
+ * markers, links as "text (url)"). Images become "[image: alt]" — never a markdown image,
+ * which a client could fetch.
+ */
+export function htmlToMarkdown(html: string, options: { plain?: boolean } = {}): string {
+  const plain = options.plain === true;
+  let out = "";
+  let lineStart = true;
+  let pending = 0; // newlines owed before the next text (2 = blank line)
+  let marker = ""; // list marker for the next line
+  let quote = 0;
+  let lineQuote = 0; // quote depth of the last written line
+  let pre = 0;
+  let skip = 0;
+  const stack: Array<{ name: string; skip: boolean }> = [];
+  const lists: Array<{ ordered: boolean; n: number }> = [];
+  // Inline spans whose text is rewritten on close; start is set on first write
+  const spans: Array<{ name: string; start: number; href?: string }> = [];
+
+  const newline = (n: 1 | 2) => {
+    if (!out) return;
+    lineStart = true;
+    pending = Math.max(pending, n);
+  };
+
+  const write = (s: string) => {
+    if (lineStart) {
+      if (!pre) s = s.trimStart();
+      if (!s) return;
+      // A blank line between quote levels belongs to the outer one
+      const separator = "> ".repeat(Math.min(quote, lineQuote)).trimEnd();
+      if (out) out = out.replace(/[ \t]+$/, "") + "\n" + (pending > 1 ? separator + "\n" : "");
+      out += "> ".repeat(quote) + marker;
+      lineQuote = quote;
+      marker = "";
+      pending = 0;
+      lineStart = false;
+    } else if (!pre && /\s$/.test(out) && s.startsWith(" ")) {
+      s = s.slice(1);
+    }
+    for (const span of spans) if (span.start < 0) span.start = out.length;
+    out += s;
+  };
+
+  const closeSpan = (name: string) => {
+    const span = spans.pop();
+    if (!span || span.start < 0) return;
+    const inner = out.slice(span.start).trim();
+    let rendered = inner;
+    if (name === "a") {
+      const href = span.href!;
+      const same = inner === href || `mailto:${inner}` === href || inner === href.replace(/^https?:\/\//, "");
+      if (inner && !same) rendered = plain ? `${inner} (${href})` : `[${inner}](${href})`;
+      else if (!inner) rendered = href;
+    } else if (inner) {
+      const mark = name === "strong" || name === "b" ? "**" : "_";
+      rendered = `${mark}${inner}${mark}`;
+    }
+    out = out.slice(0, span.start) + rendered + (/\s$/.test(out) ? " " : "");
+  };
+
+  const parser = new Parser({
+    onopentag(name, attribs) {
+      const skipping = SKIPPED.has(name) || isHidden(attribs);
+      if (!VOID.has(name)) {
+        stack.push({ name, skip: skipping });
+        if (skipping) skip++;
+      }
+      if (skip || (skipping && VOID.has(name))) return;
+
+      if (BLOCK.has(name) || name === "tr") newline(name === "tr" || name === "div" ? 1 : 2);
+      if (name === "ul" || name === "ol") lists.push({ ordered: name === "ol", n: 0 });
+      else if (name === "li") {
+        const list = lists[lists.length - 1];
+        newline(1);
+        marker = "  ".repeat(Math.max(lists.length - 1, 0)) + (list?.ordered ? `${++list.n}. ` : "- ");
+      } else if (/^h[1-6]$/.test(name)) {
+        newline(2);
+        if (!plain) marker = "#".repeat(Number(name[1])) + " ";
+      } else if (name === "blockquote") {
+        newline(2);
+        quote++;
+      } else if (name === "pre") {
+        newline(2);
+        if (!plain) {
+          write("```");
+          newline(1);
+        }
+        pre++;
+      } else if (name === "br") newline(1);
+      else if (name === "hr") {
+        newline(2);
+        write("---");
+        newline(2);
+      } else if (name === "td" || name === "th") write(" ");
+      else if (name === "img") {
+        const alt = (attribs.alt ?? "").replace(/\s+/g, " ").trim();
+        if (alt && !isPixel(attribs)) write(`[image: ${alt}]`);
+      } else if (name === "a" && attribs.href && SAFE_HREF_RE.test(attribs.href.trim())) {
+        spans.push({ name, start: -1, href: attribs.href.trim() });
+      } else if (!plain && ["strong", "b", "em", "i"].includes(name)) {
+        spans.push({ name, start: -1 });
+      }
+    },
+    ontext(text) {
+      if (skip) return;
+      if (pre) {
+        text.split("\n").forEach((line, i) => {
+          if (i > 0) newline(1);
+          write(line);
+        });
+      } else {
+        write(text.replace(/\s+/g, " "));
+      }
+    },
+    onclosetag(name) {
+      if (VOID.has(name)) return;
+      // Pop back to the matching element (htmlparser2 closes implied tags itself)
+      const index = stack.map(e => e.name).lastIndexOf(name);
+      if (index < 0) return;
+      const wasSkipping = skip > 0;
+      for (const element of stack.splice(index)) if (element.skip) skip--;
+      if (wasSkipping) return;
+
+      if (spans.length && spans[spans.length - 1].name === name) closeSpan(name);
+      if (name === "ul" || name === "ol") {
+        lists.pop();
+        newline(2);
+      } else if (name === "blockquote") {
+        quote = Math.max(quote - 1, 0);
+        newline(2);
+      } else if (name === "pre") {
+        pre--;
+        if (!plain) {
+          newline(1);
+          write("```");
+        }
+        newline(2);
+      } else if (/^h[1-6]$/.test(name)) newline(2);
+      else if (BLOCK.has(name) || name === "li" || name === "tr") newline(name === "li" || name === "tr" || name === "div" ? 1 : 2);
+    },
+  }, { decodeEntities: true });
+  parser.write(html);
+  parser.end();
+
+  return out
+    .split("\n")
+    .map(line => line.replace(/[ \t]+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const SIGNATURE_DELIMITER_RE = /^-- ?$/;
+const MOBILE_FOOTER_RE = /^(Sent from my |Sent from Mail for |Get Outlook for )/i;
+
+/** Drop the signature: everything after the last "-- " delimiter, and trailing "Sent from my …" footers. */
+export function stripSignature(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let cut = lines.length;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (SIGNATURE_DELIMITER_RE.test(lines[i])) {
+      cut = i;
+      break;
+    }
+  }
+  let kept = lines.slice(0, cut);
+  // Mobile footers only count near the end
+  const tail = kept.length - 3;
+  const footer = kept.findIndex((line, i) => i >= tail && MOBILE_FOOTER_RE.test(line.trim()));
+  if (footer >= 0) kept = kept.slice(0, footer);
+  return kept.join("\n").trim();
+}
+
+/**
+ * Render a message body in the requested format and return one page of it.
+ * Falls back to the other part when the message has only text or only HTML.
+ * Quoted history and signatures are stripped from text/markdown only.
+ */
+export function renderBody(email: Pick<EmailFull, "text" | "html">, options: BodyOptions): RenderedBody {
+  let body: string;
+  if (options.format === "html") {
+    body = email.html !== undefined ? sanitizeHtml(email.html) : sanitizeText(email.text ?? "");
+  } else {
+    const plain = options.format === "text";
+    let rendered = plain
+      ? email.text ?? (email.html !== undefined ? htmlToMarkdown(email.html, { plain: true }) : "")
+      : email.html !== undefined ? htmlToMarkdown(email.html) : email.text ?? "";
+    if (options.stripQuoted) rendered = stripQuoted(rendered);
+    if (options.stripSignature) rendered = stripSignature(rendered);
+    // Sanitized before paging so a boundary tag can't be split across pages
+    body = sanitizeText(rendered.trim());
+  }
+
+  return { format: options.format, ...pageText(body, options.offset, options.maxChars) };
+}
+
+export interface TextPage {
+  body: string;
+  offset: number;
+  totalChars: number;
+  truncated: boolean;
+  /** Offset of the next page, when truncated */
+  nextOffset?: number;
+}
+
+/** One page of `text` starting at `offset`, at most `maxChars` long (default DEFAULT_MAX_CHARS). */
+export function pageText(text: string, offset = 0, maxChars = DEFAULT_MAX_CHARS): TextPage {
+  const limit = maxChars > 0 ? maxChars : DEFAULT_MAX_CHARS;
+  const start = Math.min(Math.max(offset, 0), text.length);
+  let end = Math.min(start + limit, text.length);
+  // Don't split a surrogate pair
+  if (end < text.length && /[\uD800-\uDBFF]/.test(text[end - 1] ?? "")) end--;
+  const truncated = end < text.length;
+  return {
+    body: text.slice(start, end),
+    offset: start,
+    totalChars: text.length,
+    truncated,
+    ...(truncated ? { nextOffset: end } : {}),
+  };
+}
+
+export interface RawPage {
+  text?: string;
+  html?: string;
+  textTotalChars?: number;
+  htmlTotalChars?: number;
+  offset: number;
+  truncated: boolean;
+  nextOffset?: number;
+}
+
+/**
+ * The text and html parts (no format requested), each cut to the same page. Page raw
+ * content and sanitize/wrap each page afterwards, so every page carries its own boundary.
+ */
+export function pageRaw(parts: { text?: string; html?: string }, offset = 0, maxChars = DEFAULT_MAX_CHARS): RawPage {
+  const result: RawPage = { offset: Math.max(offset, 0), truncated: false };
+  const next: number[] = [];
+  for (const part of ["text", "html"] as const) {
+    const value = parts[part];
+    if (value === undefined) continue;
+    const page = pageText(value, offset, maxChars);
+    result[part] = page.body;
+    result[`${part}TotalChars`] = page.totalChars;
+    if (page.nextOffset !== undefined) next.push(page.nextOffset);
+  }
+  if (next.length) Object.assign(result, { truncated: true, nextOffset: Math.min(...next) });
+  return result;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { getImapConfig } from "./config.js";
+import { checkMailbox } from "./scopes.js";
+import { registerResource, registerPrompt } from "./tools.js";
+import * as imap from "./imap.js";
+
+vi.mock("./imap.js", () => ({
+  listMessages: vi.fn(),
+}));
+
+const mockListMessages = vi.mocked(imap.listMessages);
+
+// Same decoding as server.ts
+function parseMailboxSegment(value: string | string[]): string {
+  try {
+    return decodeURIComponent(String(value));
+  } catch {
+    throw new Error(`Invalid URI: mailbox "${value}" is not validly URI-encoded`);
+  }
+}
+
+// An MCP server with the mailbox:// resource, connected to a client in memory
+async function connect(): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "0" });
+  registerResource(
+    server,
+    "mailbox",
+    new ResourceTemplate("mailbox://{path}", { list: undefined }),
+    { description: "Newest 50 message envelopes in a mailbox (path is URI-encoded)", mimeType: "application/json" },
+    async (uri, { path }) => {
+      const mb = parseMailboxSegment(path);
+      checkMailbox(mb, "read");
+      const result = await imap.listMessages(getImapConfig(), mb, 50, 0);
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(result) }] };
+    }
+  );
+  registerPrompt(
+    server,
+    "triage_inbox",
+    "Classify unread messages",
+    { mailbox: z.string().optional() },
+    async ({ mailbox }) => {
+      checkMailbox(mailbox || "INBOX", "read");
+      return { messages: [] };
+    }
+  );
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe("resources", () => {
+  beforeEach(() => {
+    process.env.IMAP_HOST = "imap.biz.com";
+    process.env.IMAP_USER = "coo@biz.com";
+    process.env.IMAP_PASS = "secret";
+    process.env.SCOPE_READ_MAILBOXES = "INBOX,Archive/*";
+    mockListMessages.mockReset();
+    mockListMessages.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    for (const key of ["IMAP_HOST", "IMAP_USER", "IMAP_PASS", "SCOPE_READ_MAILBOXES", "SCOPE_DENY_TOOLS"]) delete process.env[key];
+  });
+
+  it("decodes the mailbox path from the URI", async () => {
+    const client = await connect();
+    const result = await client.readResource({ uri: "mailbox://Archive%2F2024" });
+    expect(result.contents).toEqual([{ uri: "mailbox://Archive%2F2024", mimeType: "application/json", text: "[]" }]);
+    expect(mockListMessages).toHaveBeenCalledWith(expect.any(Object), "Archive/2024", 50, 0);
+  });
+
+  it("rejects a malformed escape as an invalid URI", async () => {
+    const client = await connect();
+    await expect(client.readResource({ uri: "mailbox://Archive%E0%A4%A" })).rejects.toThrow(/Invalid URI: mailbox "Archive%E0%A4%A"/);
+    expect(mockListMessages).not.toHaveBeenCalled();
+  });
+
+  it("rejects an out-of-scope mailbox with the scope_violation details a tool returns", async () => {
+    const client = await connect();
+    const denial = { error: 'Mailbox "Finance" is outside this agent\'s read scope', code: "scope_violation", mailbox: "Finance", access: "read" };
+    await expect(client.readResource({ uri: "mailbox://Finance" })).rejects.toMatchObject({ message: expect.stringMatching(/outside this agent's read scope/), data: denial });
+    await expect(client.getPrompt({ name: "triage_inbox", arguments: { mailbox: "Finance" } })).rejects.toMatchObject({ data: denial });
+    expect(mockListMessages).not.toHaveBeenCalled();
+  });
+
+  it("leaves out resources and prompts whose tool is out of scope", async () => {
+    process.env.SCOPE_DENY_TOOLS = "list_emails,search_emails";
+    const client = await connect();
+    // Nothing registered, so the server doesn't offer resources or prompts at all
+    expect(client.getServerCapabilities()).not.toHaveProperty("resources");
+    expect(client.getServerCapabilities()).not.toHaveProperty("prompts");
+    await expect(client.readResource({ uri: "mailbox://INBOX" })).rejects.toThrow(/Method not found/);
+  });
+});
@@ -0,0 +1,146 @@
+import { randomBytes } from "crypto";
+import { getEnv } from "./config.js";
+import type { EmailEnvelope, EmailFull, ThreadMessage } from "./types.js";
+
+// --- Sanitizer for untrusted email content ---
+// Email is attacker-controlled. Every field handed to an agent goes through sanitizeText:
+// invisible characters removed, NFKC-normalized, and anything resembling an <untrusted>
+// boundary tag (look-alike brackets, entity/percent/escape encodings, homoglyphs) neutralized.
+// Bodies are wrapped in <untrusted-NONCE> … </untrusted-NONCE> with a random per-message
+// nonce, so content can't guess the closing tag. With SANITIZE_STRICT=true (per agent),
+// every untrusted field on every read path is wrapped, not just bodies.
+
+const TAG_STRIPPED = "[TAG_STRIPPED]";
+
+// Zero-width, bidi controls, soft hyphen, word joiners, BOM, Mongolian vowel separator, tag characters
+const INVISIBLE_RE = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]|\uDB40[\uDC00-\uDC7F]/g;
+
+// Bracket look-alikes NFKC leaves alone (fullwidth and small forms are already folded by NFKC)
+const BRACKETS: Record<string, string> = {
+  "\u2039": "<", "\u203A": ">", // single angle quotation marks
+  "\u3008": "<", "\u3009": ">", // CJK angle brackets (NFKC target of U+2329/U+232A)
+  "\u27E8": "<", "\u27E9": ">", // mathematical angle brackets
+  "\u02C2": "<", "\u02C3": ">", // modifier letter arrowheads
+  "\u276E": "<", "\u276F": ">", // heavy angle quotation ornaments
+};
+
+// Cyrillic/Greek/Armenian letters that render like the letters of "untrusted"
+const HOMOGLYPHS: Record<string, string> = {
+  "\u0430": "a", "\u0435": "e", "\u0455": "s", "\u0501": "d", "\u0433": "r", "\u0442": "t",
+  "\u03C5": "u", "\u057D": "u", "\u0578": "n", "\u03B5": "e", "\u03C4": "t",
+  "\u0415": "E", "\u0405": "S", "\u0422": "T", "\u039D": "N", "\u03A4": "T", "\u0395": "E",
+};
+
+const LT = String.raw`(?:<|&lt;?|&#0*60;?|&#x0*3c;?|%3c|\\u003c|\\x3c|\\074)`;
+const GT = String.raw`(?:>|&gt;?|&#0*62;?|&#x0*3e;?|%3e|\\u003e|\\x3e|\\076)`;
+const SLASH = String.raw`(?:\/|&#0*47;?|&#x0*2f;?|%2f|\\u002f|\\x2f|&sol;)`;
+// "untrusted" with optional nonce/attributes, in <…>, [/…], {/…} form or any encoding of them
+const BOUNDARY_RE = new RegExp(
+  String.raw`${LT}\s*${SLASH}?\s*untrusted\b[^<>]*?${GT}|[[{]\s*${SLASH}\s*untrusted[^\]}]*[\]}]`,
+  "gi",
+);
+
+function foldForMatching(s: string): string {
+  // 1:1 per UTF-16 unit so match offsets line up with the original string
+  let out = "";
+  for (const ch of s) {
+    const mapped = BRACKETS[ch] ?? HOMOGLYPHS[ch];
+    out += mapped !== undefined && ch.length === 1 ? mapped : ch;
+  }
+  return out;
+}
+
+/** Remove invisible characters, normalize, and neutralize boundary-tag look-alikes. */
+export function sanitizeText(s: string): string {
+  const normalized = s.replace(INVISIBLE_RE, "").normalize("NFKC");
+  const folded = foldForMatching(normalized);
+  let out = "";
+  let last = 0;
+  for (const match of folded.matchAll(BOUNDARY_RE)) {
+    out += normalized.slice(last, match.index) + TAG_STRIPPED;
+    last = match.index! + match[0].length;
+  }
+  return out + normalized.slice(last);
+}
+
+const HIDDEN_STYLE = String.raw`style\s*=\s*["'][^"']*(?:display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(?![.\d]*[1-9])|opacity\s*:\s*0(?![.\d]*[1-9])|max-height\s*:\s*0(?![.\d]*[1-9]))`;
+const HIDDEN_ELEMENT_RE = new RegExp(
+  String.raw`<([a-z][a-z0-9]*)\b[^>]*(?:${HIDDEN_STYLE}|\shidden(?=[\s=>/])|aria-hidden\s*=\s*["']?true)[^>]*>[\s\S]*?<\/\1\s*>`,
+  "gi",
+);
+
+/** Drop comments, scripts/styles and elements hidden from human readers, then sanitizeText. */
+export function sanitizeHtml(html: string): string {
+  const stripped = html
+    .replace(/<!--[\s\S]*?(?:-->|$)/g, "")
+    .replace(/<(script|style|template|noscript)\b[\s\S]*?(?:<\/\1\s*>|$)/gi, "")
+    .replace(HIDDEN_ELEMENT_RE, "");
+  return sanitizeText(stripped);
+}
+
+export function newNonce(): string {
+  return randomBytes(6).toString("hex");
+}
+
+/** Sanitize and wrap multi-line content in a nonce boundary. Use one nonce per message. */
+export function wrapUntrusted(s: string, nonce = newNonce()): string {
+  return `<untrusted-${nonce}>\n${sanitizeText(s)}\n</untrusted-${nonce}>`;
+}
+
+function wrapInline(s: string, nonce: string): string {
+  return `<untrusted-${nonce}>${sanitizeText(s)}</untrusted-${nonce}>`;
+}
+
+/** SANITIZE_STRICT=true: wrap every untrusted field, on every read path. */
+export function isStrict(): boolean {
+  return getEnv("SANITIZE_STRICT") === "true";
+}
+
+// Short header-like fields: cleaned always, wrapped inline in strict mode
+function field(s: string, nonce: string | null): string;
+function field(s: string | undefined, nonce: string | null): string | undefined;
+function field(s: string | undefined, nonce: string | null): string | undefined {
+  if (s === undefined) return undefined;
+  return nonce ? wrapInline(s, nonce) : sanitizeText(s);
+}
+
+export function sanitizeEnvelope<T extends EmailEnvelope>(envelope: T): T {
+  const nonce = isStrict() ? newNonce() : null;
+  return {
+    ...envelope,
+    from: field(envelope.from, nonce),
+    to: field(envelope.to, nonce),
+    subject: field(envelope.subject, nonce),
+    // Identifiers stay usable for threading — cleaned, never wrapped
+    messageId: envelope.messageId === undefined ? undefined : sanitizeText(envelope.messageId),
+    inReplyTo: envelope.inReplyTo === undefined ? undefined : sanitizeText(envelope.inReplyTo),
+  };
+}
+
+export function sanitizeEmail(email: EmailFull): EmailFull {
+  const nonce = isStrict() ? newNonce() : null;
+  const body = (s: string | undefined) => (s === undefined ? undefined : nonce ? wrapUntrusted(s, nonce) : sanitizeText(s));
+  return {
+    ...email,
+    from: field(email.from, nonce),
+    to: field(email.to, nonce),
+    cc: field(email.cc, nonce),
+    replyTo: field(email.replyTo, nonce),
+    subject: field(email.subject, nonce),
+    messageId: email.messageId === undefined ? undefined : sanitizeText(email.messageId),
+    text: body(email.text),
+    html: body(email.html === undefined ? undefined : sanitizeHtml(email.html)),
+    attachments: email.attachments.map(a => ({ ...a, filename: field(a.filename, nonce) })),
+  };
+}
+
+export function sanitizeThreadMessage(message: ThreadMessage): ThreadMessage {
+  const nonce = isStrict() ? newNonce() : null;
+  return {
+    ...message,
+    from: field(message.from, nonce),
+    to: field(message.to, nonce),
+    subject: field(message.subject, nonce),
+    text: nonce ? wrapUntrusted(message.text, nonce) : sanitizeText(message.text),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+let testDir: string;
+
+function writeAgent(agent: string, scopes: string[]) {
+  mkdirSync(join(testDir, agent), { recursive: true });
+  writeFileSync(join(testDir, agent, "email.env"), `MCP_API_KEY=key-${agent}\nIMAP_HOST=imap.biz.com\nIMAP_USER=${agent}@biz.com\nIMAP_PASS=secret`);
+  writeFileSync(join(testDir, agent, "scopes.env"), scopes.join("\n"));
+}
+
+describe("scopes", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    testDir = join(tmpdir(), `fagents-scopes-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    process.env.AGENTS_DIR = testDir;
+  });
+
+  afterEach(() => {
+    delete process.env.AGENTS_DIR;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("reads scopes from scopes.env, defaulting to everything allowed", async () => {
+    writeAgent("coo", ["SCOPE_TOOLS=list_*, gate_email", "SCOPE_READ_MAILBOXES=inbox,Projects/*", "SCOPE_UNGATED_READS=false", "IMAP_HOST=evil"]);
+    writeAgent("dev", []);
+    const { runWithAgent, getEnv } = await import("./config.js");
+    const { getToolScopes, toolAllowed, mailboxAllowed } = await import("./scopes.js");
+
+    const coo = runWithAgent("coo", getToolScopes);
+    expect(coo).toEqual({ tools: ["list_*", "gate_email"], denyTools: [], readMailboxes: ["inbox", "Projects/*"], writeMailboxes: [], ungatedReads: false });
+    expect(runWithAgent("coo", () => getEnv("IMAP_HOST"))).toBe("imap.biz.com"); // only SCOPE_ keys from scopes.env
+    expect(toolAllowed("list_emails", coo)).toBe(true);
+    expect(toolAllowed("gate_email", coo)).toBe(true);
+    expect(toolAllowed("send_email", coo)).toBe(false);
+    expect(mailboxAllowed("INBOX", "read", coo)).toBe(true);
+    expect(mailboxAllowed("Projects/Acme", "read", coo)).toBe(true);
+    expect(mailboxAllowed("Projects", "read", coo)).toBe(false);
+    expect(mailboxAllowed("Finance", "read", coo)).toBe(false);
+    expect(mailboxAllowed("Finance", "write", coo)).toBe(true);
+
+    const dev = runWithAgent("dev", getToolScopes);
+    expect(toolAllowed("read_email", dev)).toBe(true);
+    expect(mailboxAllowed("Finance", "read", dev)).toBe(true);
+  });
+
+  it("hides ungated reads when SCOPE_UNGATED_READS=false, and deny wins over allow", async () => {
+    const { toolAllowed } = await import("./scopes.js");
+    const scopes = { tools: ["*"], denyTools: ["delete_*"], readMailboxes: [], writeMailboxes: [], ungatedReads: false };
+    expect(toolAllowed("gate_email", scopes)).toBe(true);
+    expect(toolAllowed("read_email", scopes)).toBe(false);
+    expect(toolAllowed("get_thread", scopes)).toBe(false);
+    expect(toolAllowed("delete_mailbox", scopes)).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { getEnv } from "./config.js";
+
+// --- Per-agent tool scopes and mailbox access ---
+// Per-agent keys come from .agents/<id>/scopes.env (or process env in single-agent mode):
+//   SCOPE_TOOLS              comma-separated tool names to expose, "*" wildcards ("list_*"); empty = all
+//   SCOPE_DENY_TOOLS         same syntax; always wins over SCOPE_TOOLS
+//   SCOPE_READ_MAILBOXES     mailboxes that may be read ("INBOX", "Projects/*"); empty = all
+//   SCOPE_WRITE_MAILBOXES    mailboxes that may be changed (flags, move/copy, delete, folder management); empty = all
+//   SCOPE_UNGATED_READS      "false" hides the tools that return message content without logging it
+//                            to #email-log; gate_email and the email:// resource remain
+
+export type MailboxAccess = "read" | "write";
+
+export interface ToolScopes {
+  tools: string[];
+  denyTools: string[];
+  readMailboxes: string[];
+  writeMailboxes: string[];
+  ungatedReads: boolean;
+}
+
+export class ScopeError extends Error {
+  constructor(public mailbox: string, public access: MailboxAccess) {
+    super(`Mailbox "${mailbox}" is outside this agent's ${access} scope`);
+    this.name = "ScopeError";
+  }
+
+  toJSON() {
+    return { error: this.message, code: "scope_violation", mailbox: this.mailbox, access: this.access };
+  }
+}
+
+/** Tools that return sender content without the #email-log gate. */
+export const UNGATED_TOOLS = ["read_email", "get_thread", "download_attachment", "extract_attachment_text"];
+
+// Mailbox arguments each tool takes and the access they need. An omitted `mailbox` means INBOX.
+const MAILBOX_ARGS: Record<string, Array<[arg: string, access: MailboxAccess]>> = {
+  list_emails: [["mailbox", "read"]],
+  read_email: [["mailbox", "read"]],
+  get_thread: [["mailbox", "read"]],
+  search_emails: [["mailbox", "read"]],
+  download_attachment: [["mailbox", "read"]],
+  extract_attachment_text: [["mailbox", "read"]],
+  gate_email: [["mailbox", "read"]],
+  reply_email: [["mailbox", "read"]],
+  forward_email: [["mailbox", "read"]],
+  set_flags: [["mailbox", "write"]],
+  clear_flags: [["mailbox", "write"]],
+  move_emails: [["mailbox", "write"], ["destination", "write"]],
+  copy_emails: [["mailbox", "read"], ["destination", "write"]],
+  archive_emails: [["mailbox", "write"]],
+  delete_emails: [["mailbox", "write"]],
+  create_mailbox: [["path", "write"]],
+  rename_mailbox: [["path", "write"], ["newPath", "write"]],
+  delete_mailbox: [["path", "write"]],
+  subscribe_mailbox: [["path", "write"]],
+};
+
+// Resources and prompts that read mail follow the scope of the tool that reads the same content
+const CONTENT_TOOLS: Record<string, string> = {
+  mailbox: "list_emails",
+  email: "gate_email",
+  attachment: "gate_email",
+  triage_inbox: "search_emails",
+  draft_reply: "gate_email",
+  summarize_thread: "gate_email",
+  daily_digest: "search_emails",
+};
+
+function parseList(key: string): string[] {
+  return (getEnv(key) ?? "").split(",").map(s => s.trim()).filter(Boolean);
+}
+
+export function getToolScopes(): ToolScopes {
+  return {
+    tools: parseList("SCOPE_TOOLS"),
+    denyTools: parseList("SCOPE_DENY_TOOLS"),
+    readMailboxes: parseList("SCOPE_READ_MAILBOXES"),
+    writeMailboxes: parseList("SCOPE_WRITE_MAILBOXES"),
+    ungatedReads: getEnv("SCOPE_UNGATED_READS") !== "false",
+  };
+}
+
+function matches(value: string, pattern: string): boolean {
+  if (!pattern.includes("*")) return value === pattern;
+  const escaped = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`).test(value);
+}
+
+// INBOX is case-insensitive in IMAP (RFC 3501 §5.1); every other name is not
+function normalizeMailbox(path: string): string {
+  return /^inbox$/i.test(path) ? "INBOX" : path;
+}
+
+export function toolAllowed(name: string, scopes: ToolScopes = getToolScopes()): boolean {
+  if (!scopes.ungatedReads && UNGATED_TOOLS.includes(name)) return false;
+  if (scopes.denyTools.some(p => matches(name, p))) return false;
+  return scopes.tools.length === 0 || scopes.tools.some(p => matches(name, p));
+}
+
+/** Whether resource or prompt `name` is exposed: only when the tool reading the same content is. */
+export function contentAllowed(name: string, scopes: ToolScopes = getToolScopes()): boolean {
+  const tool = CONTENT_TOOLS[name];
+  return tool === undefined || toolAllowed(tool, scopes);
+}
+
+export function mailboxAllowed(mailbox: string, access: MailboxAccess, scopes: ToolScopes = getToolScopes()): boolean {
+  const patterns = access === "read" ? scopes.readMailboxes : scopes.writeMailboxes;
+  const mb = normalizeMailbox(mailbox);
+  return patterns.length === 0 || patterns.some(p => matches(mb, normalizeMailbox(p)));
+}
+
+/** Throw ScopeError unless the calling agent may `access` `mailbox`. */
+export function checkMailbox(mailbox: string, access: MailboxAccess, scopes: ToolScopes = getToolScopes()): void {
+  if (!mailboxAllowed(mailbox, access, scopes)) throw new ScopeError(mailbox, access);
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Wrap the handler of tool `name` so a call with an out-of-scope mailbox argument gets a
+ * scope_violation error without reaching it. Used by registerTool, which also leaves out
+ * tools that aren't allowed at all.
+ */
+export function scopeToolHandler<H extends (...args: any[]) => any>(name: string, handler: H, scopes: ToolScopes = getToolScopes()): H {
+  const mailboxArgs = MAILBOX_ARGS[name];
+  if (!mailboxArgs) return handler;
+  const wrapped = async (...callArgs: any[]) => {
+    const args = callArgs[0] ?? {};
+    for (const [arg, access] of mailboxArgs) {
+      const mailbox = args[arg] || (arg === "mailbox" ? "INBOX" : undefined);
+      if (mailbox !== undefined && !mailboxAllowed(mailbox, access, scopes)) {
+        return { content: [{ type: "text" as const, text: JSON.stringify(new ScopeError(mailbox, access)) }] };
+      }
+    }
+    return handler(...callArgs);
+  };
+  return wrapped as H;
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
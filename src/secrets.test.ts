@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, statSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { generateMasterKey, parseMasterKey, masterKeyId, encryptSecret, decryptSecret } from "./secrets.js";
+
+let testDir: string;
+
+function writeEmailEnv(agent: string, lines: string[]) {
+  mkdirSync(join(testDir, "agents", agent), { recursive: true });
+  writeFileSync(join(testDir, "agents", agent, "email.env"), lines.join("\n"));
+}
+
+describe("secrets", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    testDir = join(tmpdir(), `fagents-secrets-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(join(testDir, "agents"), { recursive: true });
+    process.env.AGENTS_DIR = join(testDir, "agents");
+    process.env.SECRETS_KEY = generateMasterKey();
+  });
+
+  afterEach(() => {
+    delete process.env.AGENTS_DIR;
+    delete process.env.SECRETS_KEY;
+    delete process.env.SECRETS_KEY_FILE;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("encrypts with AES-GCM and rejects another key, another name or an altered value", () => {
+    const key = parseMasterKey(generateMasterKey());
+    const other = parseMasterKey(Buffer.alloc(32, 7).toString("hex"));
+    const stored = encryptSecret("IMAP_PASS", "p@ss ${not-a-var}", key);
+
+    expect(stored).toMatch(new RegExp(`^enc:v1:${masterKeyId(key)}:`));
+    expect(stored).not.toContain("p@ss");
+    expect(encryptSecret("IMAP_PASS", "p@ss", key)).not.toBe(encryptSecret("IMAP_PASS", "p@ss", key));
+    expect(decryptSecret("IMAP_PASS", stored, key)).toBe("p@ss ${not-a-var}");
+    expect(() => decryptSecret("IMAP_PASS", stored, other)).toThrow(`encrypted with master key ${masterKeyId(key)}`);
+    expect(() => decryptSecret("SMTP_PASS", stored, key)).toThrow("failed to decrypt");
+    expect(() => decryptSecret("IMAP_PASS", stored.slice(0, -2) + (stored.endsWith("AA") ? "BB" : "AA"), key)).toThrow("failed to decrypt");
+    const [tag] = stored.split(":").slice(-2);
+    const truncated = stored.replace(`:${tag}:`, `:${Buffer.from(tag, "base64url").subarray(0, 4).toString("base64url")}:`);
+    expect(() => decryptSecret("IMAP_PASS", truncated, key)).toThrow("failed to decrypt");
+    expect(() => decryptSecret("IMAP_PASS", "plain", key)).toThrow("not encrypted");
+    expect(() => parseMasterKey("too-short")).toThrow("32 bytes");
+  });
+
+  it("moves passwords out of email.env and loads them decrypted", async () => {
+    writeEmailEnv("coo", ["MCP_API_KEY=key-coo", "IMAP_HOST=imap.biz.com", "IMAP_USER=coo@biz.com", "IMAP_PASS=imap-secret", "SMTP_PASS=${COO_SMTP_PASS:-x}"]);
+    const { encryptAgentEnv, listSecrets, getSecret, setSecret } = await import("./cli.js");
+
+    expect(encryptAgentEnv("coo")).toEqual({ moved: ["IMAP_PASS"], skipped: ["SMTP_PASS"] });
+    expect(readFileSync(join(testDir, "agents", "coo", "email.env"), "utf-8")).toBe("MCP_API_KEY=key-coo\nIMAP_HOST=imap.biz.com\nIMAP_USER=coo@biz.com\nSMTP_PASS=${COO_SMTP_PASS:-x}");
+    const file = join(testDir, "agents", "coo", "secrets.env");
+    expect(readFileSync(file, "utf-8")).not.toContain("imap-secret");
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+
+    expect(setSecret("coo", "COMMS_TOKEN", "tok")).toBe(false);
+    expect(listSecrets("coo")).toEqual(["IMAP_PASS", "COMMS_TOKEN"]);
+    expect(getSecret("coo", "IMAP_PASS")).toBe("imap-secret");
+    expect(() => setSecret("coo", "MCP_API_KEY", "k")).toThrow(/fagents-mcp keys/);
+
+    const { runWithAgent, getEnv, getConfigErrors } = await import("./config.js");
+    expect(getConfigErrors()).toEqual([]);
+    expect(runWithAgent("coo", () => [getEnv("IMAP_PASS"), getEnv("COMMS_TOKEN"), getEnv("SMTP_PASS")])).toEqual(["imap-secret", "tok", "x"]);
+  });
+
+  it("reports an agent whose secrets can't be decrypted", async () => {
+    writeEmailEnv("coo", ["MCP_API_KEY=key-coo", "IMAP_HOST=imap.biz.com", "IMAP_USER=coo@biz.com", "IMAP_PASS=imap-secret"]);
+    const { encryptAgentEnv } = await import("./cli.js");
+    encryptAgentEnv("coo");
+
+    process.env.SECRETS_KEY = generateMasterKey();
+    const { getConfigErrors, listAgentIds, reloadAgentsConfig } = await import("./config.js");
+    expect(listAgentIds()).toEqual([]);
+    expect(getConfigErrors()).toEqual([{ agent: "coo", error: expect.stringMatching(/secrets\.env: IMAP_PASS was encrypted with master key/) }]);
+
+    delete process.env.SECRETS_KEY;
+    expect(reloadAgentsConfig().errors).toEqual([{ agent: "coo", error: expect.stringContaining("need SECRETS_KEY or SECRETS_KEY_FILE") }]);
+  });
+
+  it("re-keys every agent from a key file", async () => {
+    writeEmailEnv("coo", ["IMAP_HOST=imap.biz.com", "IMAP_USER=coo@biz.com", "IMAP_PASS=coo-secret"]);
+    writeEmailEnv("dev", ["IMAP_HOST=imap.biz.com", "IMAP_USER=dev@biz.com", "IMAP_PASS=dev-secret"]);
+    const { runSecretsCommand, getSecret } = await import("./cli.js");
+    const out: string[] = [];
+    const err: string[] = [];
+    expect(runSecretsCommand(["encrypt", "--all"], line => out.push(line), line => err.push(line))).toBe(0);
+    expect(err).toEqual(["coo: encrypted IMAP_PASS", "dev: encrypted IMAP_PASS"]);
+
+    const newKeyFile = join(testDir, "new.key");
+    expect(runSecretsCommand(["keygen", "--out", newKeyFile], line => out.push(line), line => err.push(line))).toBe(0);
+    expect(statSync(newKeyFile).mode & 0o777).toBe(0o600);
+    expect(runSecretsCommand(["rekey", "--new-key-file", newKeyFile], line => out.push(line), line => err.push(line))).toBe(0);
+    expect(() => getSecret("coo", "IMAP_PASS")).toThrow(/encrypted with master key/);
+
+    delete process.env.SECRETS_KEY;
+    process.env.SECRETS_KEY_FILE = newKeyFile;
+    expect(getSecret("coo", "IMAP_PASS")).toBe("coo-secret");
+    expect(runSecretsCommand(["get", "--agent", "dev", "--key", "IMAP_PASS"], line => out.push(line), line => err.push(line))).toBe(0);
+    expect(out).toEqual(["dev-secret"]);
+  });
+
+  it("leaves every agent on the old key when a re-keyed file can't be written", async () => {
+    writeEmailEnv("coo", ["IMAP_HOST=imap.biz.com", "IMAP_USER=coo@biz.com", "IMAP_PASS=coo-secret"]);
+    writeEmailEnv("dev", ["IMAP_HOST=imap.biz.com", "IMAP_USER=dev@biz.com", "IMAP_PASS=dev-secret"]);
+    const { encryptAgentEnv, rekeySecrets, getSecret } = await import("./cli.js");
+    encryptAgentEnv("coo");
+    encryptAgentEnv("dev");
+    const before = readFileSync(join(testDir, "agents", "coo", "secrets.env"), "utf-8");
+    mkdirSync(join(testDir, "agents", "dev", "secrets.env.tmp")); // the write for dev fails
+
+    expect(() => rekeySecrets(parseMasterKey(generateMasterKey()))).toThrow();
+    expect(readFileSync(join(testDir, "agents", "coo", "secrets.env"), "utf-8")).toBe(before);
+    expect(existsSync(join(testDir, "agents", "coo", "secrets.env.tmp"))).toBe(false);
+    expect(getSecret("coo", "IMAP_PASS")).toBe("coo-secret");
+    expect(getSecret("dev", "IMAP_PASS")).toBe("dev-secret");
+  });
+});
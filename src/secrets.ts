@@ -0,0 +1,74 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { readFileSync } from "fs";
+
+// --- Encrypted secrets: AES-256-GCM with an operator-held master key ---
+// The master key is 32 random bytes (base64 or hex) in SECRETS_KEY, or in the file named
+// by SECRETS_KEY_FILE. Stored form, one value per KEY=value line of secrets.env:
+//   enc:v1:<key-id>:<iv>:<tag>:<ciphertext>     (iv/tag/ciphertext base64url)
+// <key-id> names the master key that encrypted the value; the KEY name is bound in as
+// additional data, so a value can't be moved to another key.
+
+const ALGORITHM = "aes-256-gcm";
+// Full-length GCM tags only: Node otherwise accepts truncated tags, which are far easier to forge
+const TAG_BYTES = 16;
+const PREFIX = "enc:v1:";
+
+/** New random master key, base64. */
+export function generateMasterKey(): string {
+  return randomBytes(32).toString("base64");
+}
+
+export function parseMasterKey(text: string): Buffer {
+  const trimmed = text.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
+  if (key.length !== 32) throw new Error("Master key must be 32 bytes, base64 or hex (generate one with: fagents-mcp secrets keygen)");
+  return key;
+}
+
+/** The master key from SECRETS_KEY or SECRETS_KEY_FILE, or null when neither is set. */
+export function getMasterKey(): Buffer | null {
+  if (process.env.SECRETS_KEY) return parseMasterKey(process.env.SECRETS_KEY);
+  const file = process.env.SECRETS_KEY_FILE;
+  if (!file) return null;
+  try {
+    return parseMasterKey(readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read SECRETS_KEY_FILE ${file}: ${(error as Error).message}`);
+  }
+}
+
+/** Short fingerprint of a master key, recorded with each value so a wrong key is named as such. */
+export function masterKeyId(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+export function isEncrypted(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+export function encryptSecret(name: string, value: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(name));
+  const ciphertext = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${PREFIX}${masterKeyId(key)}:${iv.toString("base64url")}:${tag.toString("base64url")}:${ciphertext.toString("base64url")}`;
+}
+
+/** Decrypt a stored value of `name`. Throws if it isn't encrypted, was encrypted with another key, or was altered. */
+export function decryptSecret(name: string, stored: string, key: Buffer): string {
+  if (!isEncrypted(stored)) throw new Error(`${name} is not encrypted`);
+  const [keyId, iv, tag, ciphertext] = stored.slice(PREFIX.length).split(":");
+  if (ciphertext === undefined) throw new Error(`${name} is not a valid encrypted value`);
+  if (keyId !== masterKeyId(key)) throw new Error(`${name} was encrypted with master key ${keyId}, not ${masterKeyId(key)}`);
+  try {
+    const authTag = Buffer.from(tag, "base64url");
+    if (authTag.length !== TAG_BYTES) throw new Error("bad tag length");
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64url"), { authTagLength: TAG_BYTES });
+    decipher.setAAD(Buffer.from(name));
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf-8");
+  } catch {
+    throw new Error(`${name} failed to decrypt (value altered or corrupted)`);
+  }
+}
@@ -1,18 +1,248 @@
 import "dotenv/config";
 import express from "express";
 import type { Request, Response } from "express";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { authenticate } from "./auth.js";
-import { runWithAgent, getServerConfig, getEmailConfig, getImapConfig, getEnv, getCurrentAgentId } from "./config.js";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
+import { authenticate, authenticateAdmin } from "./auth.js";
+import { runWithAgent, getServerConfig, getEmailConfig, getImapConfig, getEnv, getCurrentAgentId, reloadAgentsConfig, getConfigErrors, watchAgentsConfig } from "./config.js";
 import { sendEmail, buildRawMessage } from "./email.js";
+import { buildReply, buildForward, parseDraft } from "./compose.js";
 import * as imap from "./imap.js";
+import { getPoolStats, closePool, closeAgentPools } from "./imap-pool.js";
+import * as watch from "./watch.js";
+import * as sessions from "./sessions.js";
+import * as webhooks from "./webhooks.js";
+import * as blobs from "./blobs.js";
+import { resolvePositions, encodeCursor } from "./cursor.js";
+import type { MailboxPosition } from "./cursor.js";
+import { postToChannel } from "./comms.js";
+import { sanitizeText, sanitizeHtml, sanitizeEnvelope, sanitizeEmail, sanitizeThreadMessage, wrapUntrusted, newNonce } from "./sanitize.js";
+import { renderBody, pageText, pageRaw, BODY_FORMATS, DEFAULT_MAX_CHARS } from "./render.js";
+import { extractText, extractMaxBytes, UnsupportedTypeError } from "./extract.js";
+import type { BodyFormat, RenderedBody } from "./render.js";
+import { triagePrompt, draftReplyPrompt, threadSummaryPrompt, digestPrompt } from "./prompts.js";
+import * as outbox from "./outbox.js";
+import { auditRequest, queryAudit } from "./audit.js";
+import { enforceSendPolicy, reserveSend, PolicyViolationError } from "./policy.js";
+import type { SendReservation } from "./policy.js";
+import { getToolScopes, mailboxAllowed, checkMailbox, ScopeError } from "./scopes.js";
+import { registerTool, registerResource, registerPrompt } from "./tools.js";
+import type { EmailMessage, EmailSendResult, EmailAttachment, EmailFull, ThreadResult } from "./types.js";
 
 const log = (msg: string) => console.log(`[${new Date().toISOString()}] ${msg}`);
 
+// Send via SMTP, then save a copy to the Sent folder (best-effort — don't fail the send).
+// With draftUid, the draft is removed once sent. Policy must already have been checked;
+// `reservation` is the rate-limit slot it took (approved outbox sends take one here).
+async function deliver(tool: string, message: EmailMessage, draftUid?: number, reservation: SendReservation = reserveSend()): Promise<EmailSendResult & { draftRemoved?: boolean }> {
+  const config = getEmailConfig();
+  const summary = { tool, to: message.to, ...(message.cc ? { cc: message.cc } : {}), subject: message.subject };
+  let result: EmailSendResult;
+  try {
+    result = await sendEmail(config, message);
+  } catch (error) {
+    reservation.release();
+    webhooks.emitWebhook("email.send_failed", { ...summary, error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+  webhooks.emitWebhook("email.sent", { ...summary, ...result });
+  try {
+    const imapConfig = getImapConfig();
+    // Reuse the SMTP Message-ID so the Sent copy threads with replies to it
+    const raw = await buildRawMessage(config, { ...message, messageId: result.messageId });
+    const sentFolder = await imap.appendToSent(imapConfig, raw);
+    if (sentFolder) log(`${tool} saved to ${sentFolder}`);
+  } catch (e) {
+    log(`${tool}: failed to save to Sent: ${e instanceof Error ? e.message : e}`);
+  }
+  if (draftUid === undefined) return result;
+
+  let draftRemoved = false;
+  try {
+    draftRemoved = await imap.deleteDraft(getImapConfig(), draftUid);
+  } catch (e) {
+    log(`${tool}: sent but failed to remove draft ${draftUid}: ${e instanceof Error ? e.message : e}`);
+  }
+  return { ...result, draftRemoved };
+}
+
+// Fetch a message and log its full content to #email-log BEFORE anything is returned to the caller.
+// Shared by gate_email and the email:// resource.
+async function gateMessage(mailbox: string, uid: number, markSeen: boolean): Promise<{ email: EmailFull; logged: boolean }> {
+  const email = await imap.getMessage(getImapConfig(), mailbox, uid, { markSeen });
+  const agentId = getCurrentAgentId() ?? "unknown";
+
+  const attachmentList = email.attachments.length > 0
+    ? email.attachments.map(a => `${a.filename} (${a.contentType}, ${a.size ?? "?"}B)`).join(", ")
+    : "(none)";
+
+  const logLines = [
+    `[gate_email] uid=${uid} mailbox=${mailbox} agent=${agentId}`,
+    `From: ${email.from}`,
+    `To: ${email.to}`,
+    `Subject: ${email.subject}`,
+    `Date: ${email.date}`,
+    `MessageId: ${email.messageId ?? "(none)"}`,
+    email.cc ? `Cc: ${email.cc}` : null,
+    `Attachments: ${attachmentList}`,
+    `---`,
+    email.text ?? email.html ?? "(no body)",
+  ].filter(Boolean).join("\n");
+
+  const posted = await postToChannel("email-log", logLines);
+  const logged = posted.ok;
+  if (!posted.ok) {
+    log(`gate_email: failed to log to #email-log: ${posted.reason}`);
+  }
+  webhooks.emitWebhook("email.gated", { uid: email.uid, mailbox, from: email.from, date: email.date, logged });
+  return { email, logged };
+}
+
+// format/strip/paging arguments shared by read_email and gate_email
+const bodyShape = {
+  format: z.enum(BODY_FORMATS).optional().describe("Return one rendered `body` instead of raw text/html: text, markdown (HTML converted, links kept, tracking pixels and styles dropped) or html (sanitized)"),
+  strip_quoted: z.boolean().optional().describe("With format text/markdown: drop quoted reply history"),
+  strip_signature: z.boolean().optional().describe("With format text/markdown: drop the signature"),
+  offset: z.number().optional().describe("Character offset to start from — pass nextOffset from a truncated response to get the next page"),
+  max_chars: z.number().optional().describe(`Max body characters per page (default: ${DEFAULT_MAX_CHARS}); without format, applies to text and html each`),
+};
+
+type BodyArgs = { format?: BodyFormat; strip_quoted?: boolean; strip_signature?: boolean; offset?: number; max_chars?: number };
+
+// One page of the rendered body, or null when no format was requested (raw text/html)
+function renderArgs(email: EmailFull, args: BodyArgs): RenderedBody | null {
+  if (!args.format) return null;
+  return renderBody(email, {
+    format: args.format,
+    stripQuoted: args.strip_quoted,
+    stripSignature: args.strip_signature,
+    offset: args.offset,
+    maxChars: args.max_chars,
+  });
+}
+
+// Like gateMessage for a whole conversation: the thread is logged to #email-log before it is returned
+async function gateThread(mailbox: string, uid: number): Promise<ThreadResult> {
+  const thread = await imap.getThread(getImapConfig(), mailbox, uid);
+  const agentId = getCurrentAgentId() ?? "unknown";
+  const logLines = [
+    `[gate_thread] uid=${uid} mailbox=${mailbox} agent=${agentId} messages=${thread.messages.length}`,
+    ...thread.messages.map(m => [
+      `--- uid=${m.uid} (${m.mailbox})`,
+      `From: ${m.from}`,
+      `To: ${m.to}`,
+      `Subject: ${m.subject}`,
+      `Date: ${m.date}`,
+      m.text,
+    ].join("\n")),
+  ].join("\n");
+  const posted = await postToChannel("email-log", logLines);
+  if (!posted.ok) {
+    log(`gate_thread: failed to log to #email-log: ${posted.reason}`);
+  }
+  return thread;
+}
+
+function parsePositive(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === "") return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`Invalid ${name}: ${value}`);
+  return n;
+}
+
+function parseUid(value: string | string[]): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`Invalid UID: ${value}`);
+  return n;
+}
+
+// Tool error payload: policy, scope and unsupported-type errors keep their code and details
+// (see their toJSON), anything else is { error }
+function toolError(error: unknown): unknown {
+  if (error instanceof PolicyViolationError || error instanceof ScopeError || error instanceof UnsupportedTypeError) return error;
+  return { error: error instanceof Error ? error.message : String(error) };
+}
+
+// Mailbox paths in resource URIs are URI-encoded; a broken escape is reported instead of a URIError
+function parseMailboxSegment(value: string | string[]): string {
+  try {
+    return decodeURIComponent(String(value));
+  } catch {
+    throw new Error(`Invalid URI: mailbox "${value}" is not validly URI-encoded`);
+  }
+}
+
+// The draft send_draft is sending, and the digest of its source (see outbox.draftDigest)
+interface QueuedDraft {
+  uid: number;
+  digest: string;
+}
+
+interface HeldForApproval {
+  status: "pending_approval";
+  id: string;
+  notified: boolean;
+}
+
+// Queue the message in the outbox and ask a human on comms to approve it
+async function holdForApproval(tool: string, message: EmailMessage, draft?: QueuedDraft): Promise<HeldForApproval> {
+  const agentId = getCurrentAgentId() ?? null;
+  const item = outbox.enqueue(agentId, tool, message, draft);
+  const channel = getEnv("SEND_APPROVAL_CHANNEL") ?? "email-approvals";
+  const summary = [
+    `[outbox] ${tool} from agent=${agentId ?? "default"} awaiting approval — id=${item.id}`,
+    `To: ${message.to}`,
+    message.cc ? `Cc: ${message.cc}` : null,
+    message.bcc ? `Bcc: ${message.bcc}` : null,
+    `Subject: ${message.subject}`,
+    `Attachments: ${message.attachments?.length ? message.attachments.map(a => a.filename).join(", ") : "(none)"}`,
+    `---`,
+    message.body,
+    `---`,
+    `Approve: POST /api/outbox/${item.id}/approve  ·  Reject: POST /api/outbox/${item.id}/reject`,
+  ].filter(Boolean).join("\n");
+  const posted = await postToChannel(channel, summary);
+  if (!posted.ok) log(`${tool}: failed to post approval request to #${channel}: ${posted.reason}`);
+  log(`${tool} held for approval id=${item.id}`);
+  return { status: "pending_approval", id: item.id, notified: posted.ok };
+}
+
+// Check the agent's send policy, then send now or hold for human approval
+async function submitEmail(tool: string, message: EmailMessage, draft?: QueuedDraft): Promise<(EmailSendResult & { draftRemoved?: boolean }) | HeldForApproval> {
+  const policy = enforceSendPolicy(message);
+  if (policy.requireApproval) return holdForApproval(tool, message, draft);
+  return deliver(tool, message, draft?.uid, policy.reservation);
+}
+
+// Outgoing message fields shared by send_email and the draft tools
+const messageParams = {
+  to: z.string().describe("Recipient email address"),
+  subject: z.string().describe("Email subject line"),
+  body: z.string().describe("Email body text (plain text)"),
+  html: z.string().optional().describe("Email body HTML (optional, sent alongside plain text)"),
+  cc: z.string().optional().describe("CC recipients (comma-separated)"),
+  bcc: z.string().optional().describe("BCC recipients (comma-separated)"),
+  attachments: z.array(z.object({
+    filename: z.string().optional().describe("Attachment filename (required with content; defaults to the blob's or file's name)"),
+    content: z.string().optional().describe("Base64-encoded file content"),
+    blob: z.string().optional().describe("Blob reference (blob:...) from POST /api/blobs or download_attachment with save_to_blob"),
+    path: z.string().optional().describe("Local file path inside one of this agent's ATTACHMENT_PATHS directories"),
+    contentType: z.string().optional().describe("MIME type (e.g. application/pdf)"),
+  })).optional().describe("File attachments — each needs exactly one of content, blob or path"),
+};
+
+// Message params with blob/path attachments resolved to inline content
+function withAttachments<T extends { attachments?: blobs.AttachmentInput[] }>(params: T): Omit<T, "attachments"> & { attachments?: EmailAttachment[] } {
+  return { ...params, attachments: blobs.resolveAttachments(params.attachments, getCurrentAgentId() ?? null) };
+}
+
 // --- MCP Server factory ---
-// Create a fresh server+transport per request (SDK requires this in stateless mode)
+// Create a fresh server+transport per request (SDK requires this in stateless mode).
+// Runs in the calling agent's context: only tools in its scopes are registered.
 
 function createMcpServer(): McpServer {
   const server = new McpServer({
@@ -20,64 +250,302 @@ function createMcpServer(): McpServer {
     version: "0.1.0",
   });
 
-  server.tool(
+  registerTool(
+    server,
     "send_email",
-    "Send an email via SMTP. Supports plain text, HTML, and file attachments.",
-    {
-      to: z.string().describe("Recipient email address"),
-      subject: z.string().describe("Email subject line"),
-      body: z.string().describe("Email body text (plain text)"),
-      html: z.string().optional().describe("Email body HTML (optional, sent alongside plain text)"),
-      cc: z.string().optional().describe("CC recipients (comma-separated)"),
-      bcc: z.string().optional().describe("BCC recipients (comma-separated)"),
-      attachments: z.array(z.object({
-        filename: z.string().describe("Attachment filename"),
-        content: z.string().describe("Base64-encoded file content"),
-        contentType: z.string().optional().describe("MIME type (e.g. application/pdf)"),
-      })).optional().describe("File attachments"),
-    },
+    "Send an email via SMTP. Supports plain text, HTML, and file attachments. If this agent requires human approval, the message is held and a pending_approval id is returned — poll it with get_send_status.",
+    messageParams,
     async (params) => {
       log(`send_email to=${params.to} subject="${params.subject}"`);
       try {
-        const config = getEmailConfig();
-        const result = await sendEmail(config, params);
-        // Save to Sent folder (best-effort — don't fail the send)
-        try {
-          const imapConfig = getImapConfig();
-          const raw = await buildRawMessage(config, params);
-          const sentFolder = await imap.appendToSent(imapConfig, raw);
-          if (sentFolder) log(`send_email saved to ${sentFolder}`);
-        } catch (e) {
-          log(`send_email: failed to save to Sent: ${e instanceof Error ? e.message : e}`);
-        }
+        const result = await submitEmail("send_email", withAttachments(params));
         return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         log(`send_email error: ${msg}`);
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: msg }) }] };
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "get_send_status",
+    "Check the status of a message held for human approval: pending, approved, sent, failed or rejected",
+    {
+      id: z.string().describe("Outbox id returned by send_email (status=pending_approval)"),
+    },
+    async ({ id }) => {
+      log(`get_send_status id=${id}`);
+      try {
+        const item = outbox.getItem(id);
+        // Agents only see their own outbox items
+        if (!item || item.agentId !== (getCurrentAgentId() ?? null)) throw new Error(`Outbox item not found: ${id}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(outbox.summarize(item)) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`get_send_status error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "save_draft",
+    "Compose an email without sending it: saves it to the \\Drafts folder so a human can review it in a mail client. Send later with send_draft.",
+    messageParams,
+    async (params) => {
+      log(`save_draft to=${params.to} subject="${params.subject}"`);
+      try {
+        const raw = await buildRawMessage(getEmailConfig(), withAttachments(params));
+        const result = await imap.saveDraft(getImapConfig(), raw);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`save_draft error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "list_drafts",
+    "List drafts in the \\Drafts folder. Returns newest first.",
+    {
+      limit: z.number().optional().describe("Max drafts to return (default: 20)"),
+      offset: z.number().optional().describe("Skip N newest drafts (default: 0)"),
+    },
+    async ({ limit, offset }) => {
+      log("list_drafts");
+      try {
+        const result = await imap.listDrafts(getImapConfig(), limit || 20, offset || 0);
+        result.drafts = result.drafts.map(sanitizeEnvelope);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`list_drafts error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "update_draft",
+    "Replace a draft by UID with new content. The draft gets a new UID, which is returned.",
+    {
+      uid: z.number().describe("Draft UID from save_draft or list_drafts"),
+      ...messageParams,
+    },
+    async ({ uid, ...params }) => {
+      log(`update_draft uid=${uid} to=${params.to} subject="${params.subject}"`);
+      try {
+        const raw = await buildRawMessage(getEmailConfig(), withAttachments(params));
+        const result = await imap.saveDraft(getImapConfig(), raw, uid);
+        return { content: [{ type: "text" as const, text: JSON.stringify({ ...result, replaced: uid }) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`update_draft error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "send_draft",
+    "Send a draft by UID as currently stored (including any edits made in a mail client), save it to Sent, and remove it from Drafts. If the agent requires approval, the draft stays until a human approves.",
+    {
+      uid: z.number().describe("Draft UID from save_draft or list_drafts"),
+    },
+    async ({ uid }) => {
+      log(`send_draft uid=${uid}`);
+      try {
+        const imapConfig = getImapConfig();
+        const source = await imap.getDraftSource(imapConfig, uid);
+        const message = await parseDraft(source);
+        const result = await submitEmail("send_draft", message, { uid, digest: outbox.draftDigest(source) });
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`send_draft error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "reply_email",
+    "Reply to an email by UID. Sets Re: subject, In-Reply-To/References threading headers, and quotes the original body.",
+    {
+      uid: z.number().describe("UID of the message to reply to"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      body: z.string().describe("Reply text (plain text, placed above the quoted original)"),
+      replyAll: z.boolean().optional().describe("Also reply to original To/Cc recipients (default: false)"),
+    },
+    async ({ uid, mailbox, body, replyAll }) => {
+      const mb = mailbox || "INBOX";
+      log(`reply_email uid=${uid} mailbox=${mb} replyAll=${!!replyAll}`);
+      try {
+        const original = await imap.getMessage(getImapConfig(), mb, uid);
+        const self = [getEmailConfig().from, getEnv("SMTP_USER"), getEnv("IMAP_USER")].filter((a): a is string => !!a);
+        const message = buildReply(original, { body, replyAll, self });
+        const result = await submitEmail("reply_email", message);
+        return { content: [{ type: "text" as const, text: JSON.stringify({ ...result, to: message.to, cc: message.cc, subject: message.subject }) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`reply_email error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "forward_email",
+    "Forward an email by UID to new recipients, with an optional note. Original attachments are re-attached by default.",
+    {
+      uid: z.number().describe("UID of the message to forward"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      to: z.string().describe("Recipient email address(es), comma-separated"),
+      note: z.string().optional().describe("Text placed above the forwarded message"),
+      includeAttachments: z.boolean().optional().describe("Re-attach the original attachments (default: true)"),
+    },
+    async ({ uid, mailbox, to, note, includeAttachments }) => {
+      const mb = mailbox || "INBOX";
+      log(`forward_email uid=${uid} mailbox=${mb} to=${to}`);
+      try {
+        const imapConfig = getImapConfig();
+        const original = await imap.getMessage(imapConfig, mb, uid);
+        const attachments: EmailAttachment[] = [];
+        if (includeAttachments !== false) {
+          for (const a of original.attachments) {
+            const { content, contentType } = await imap.downloadAttachment(imapConfig, mb, uid, a.part);
+            attachments.push({ filename: a.filename, content, contentType });
+          }
+        }
+        const message = buildForward(original, { to, note, attachments });
+        const result = await submitEmail("forward_email", message);
+        return { content: [{ type: "text" as const, text: JSON.stringify({ ...result, subject: message.subject, attachments: attachments.length }) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`forward_email error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
       }
     }
   );
 
-  server.tool(
+  registerTool(
+    server,
     "list_mailboxes",
-    "List available email mailboxes/folders via IMAP",
+    "List available email mailboxes/folders via IMAP, with message/unseen counts and subscription state",
     {},
     async () => {
       log("list_mailboxes");
       try {
         const config = getImapConfig();
-        const result = await imap.listMailboxes(config);
+        const scopes = getToolScopes();
+        const result = (await imap.listMailboxes(config)).filter(mb => mailboxAllowed(mb.path, "read", scopes) || mailboxAllowed(mb.path, "write", scopes));
         return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         log(`list_mailboxes error: ${msg}`);
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: msg }) }] };
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "create_mailbox",
+    "Create a new mailbox folder (e.g. Projects/Acme). Parent folders are created as needed.",
+    {
+      path: z.string().describe("Full mailbox path to create"),
+    },
+    async ({ path }) => {
+      log(`create_mailbox path=${path}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.createMailbox(config, path);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`create_mailbox error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "rename_mailbox",
+    "Rename or move a mailbox folder. INBOX and special-use folders (Sent, Trash, ...) cannot be renamed.",
+    {
+      path: z.string().describe("Current mailbox path"),
+      newPath: z.string().describe("New mailbox path"),
+    },
+    async ({ path, newPath }) => {
+      log(`rename_mailbox path=${path} newPath=${newPath}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.renameMailbox(config, path, newPath);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`rename_mailbox error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "delete_mailbox",
+    "Delete a mailbox folder and all messages in it. INBOX and special-use folders (Sent, Trash, ...) cannot be deleted.",
+    {
+      path: z.string().describe("Mailbox path to delete"),
+    },
+    async ({ path }) => {
+      log(`delete_mailbox path=${path}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.deleteMailbox(config, path);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`delete_mailbox error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
       }
     }
   );
 
-  server.tool(
+  registerTool(
+    server,
+    "subscribe_mailbox",
+    "Subscribe to a mailbox folder (or unsubscribe with subscribed=false) so it shows up in mail clients",
+    {
+      path: z.string().describe("Mailbox path"),
+      subscribed: z.boolean().optional().describe("false to unsubscribe (default: true)"),
+    },
+    async ({ path, subscribed }) => {
+      log(`subscribe_mailbox path=${path} subscribed=${subscribed !== false}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.subscribeMailbox(config, path, subscribed !== false);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`subscribe_mailbox error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
     "list_emails",
     "List email messages in a mailbox folder. Returns newest first.",
     {
@@ -89,38 +557,78 @@ function createMcpServer(): McpServer {
       log(`list_emails mailbox=${mailbox || "INBOX"}`);
       try {
         const config = getImapConfig();
-        const result = await imap.listMessages(config, mailbox || "INBOX", limit || 20, offset || 0);
+        const result = (await imap.listMessages(config, mailbox || "INBOX", limit || 20, offset || 0)).map(sanitizeEnvelope);
         return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         log(`list_emails error: ${msg}`);
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: msg }) }] };
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
       }
     }
   );
 
-  server.tool(
+  registerTool(
+    server,
     "read_email",
-    "Read a full email message by UID, including body text/HTML and attachment info",
+    "Read a full email message by UID, including body text/HTML and attachment info. Set format to get one rendered, size-limited body instead of raw text/HTML.",
     {
       uid: z.number().describe("Message UID from list_emails or search_emails"),
       mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      peek: z.boolean().optional().describe("Fetch with BODY.PEEK so the \\Seen flag is left unchanged (default: true). Set false to mark the message read."),
+      ...bodyShape,
     },
-    async ({ uid, mailbox }) => {
-      log(`read_email uid=${uid} mailbox=${mailbox || "INBOX"}`);
+    async ({ uid, mailbox, peek, ...bodyArgs }) => {
+      log(`read_email uid=${uid} mailbox=${mailbox || "INBOX"}${bodyArgs.format ? ` format=${bodyArgs.format}` : ""}`);
       try {
         const config = getImapConfig();
-        const result = await imap.getMessage(config, mailbox || "INBOX", uid);
+        const email = await imap.getMessage(config, mailbox || "INBOX", uid, { markSeen: peek === false });
+        const page = renderArgs(email, bodyArgs);
+        // Page the raw parts, then sanitize (and in strict mode wrap) each page on its own
+        const { text, html, ...paging } = pageRaw(
+          { text: email.text, html: email.html === undefined ? undefined : sanitizeHtml(email.html) },
+          bodyArgs.offset,
+          bodyArgs.max_chars,
+        );
+        let result: unknown = { ...sanitizeEmail({ ...email, text, html }), ...paging };
+        if (page) {
+          const { text, html: _html, ...rest } = sanitizeEmail({ ...email, text: page.body, html: undefined });
+          result = { ...rest, ...page, body: text ?? "" };
+        }
         return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         log(`read_email error: ${msg}`);
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: msg }) }] };
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "get_thread",
+    "Get the whole conversation containing a message: gathers related messages from the mailbox and Sent folder, oldest first, with quoted reply history trimmed from each body",
+    {
+      uid: z.number().describe("UID of any message in the conversation"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+    },
+    async ({ uid, mailbox }) => {
+      const mb = mailbox || "INBOX";
+      log(`get_thread uid=${uid} mailbox=${mb}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.getThread(config, mb, uid);
+        result.messages = result.messages.map(sanitizeThreadMessage);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`get_thread error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
       }
     }
   );
 
-  server.tool(
+  registerTool(
+    server,
     "search_emails",
     "Search emails in a mailbox by criteria (from, to, subject, date range, unseen, text)",
     {
@@ -137,118 +645,258 @@ function createMcpServer(): McpServer {
       log(`search_emails mailbox=${mailbox || "INBOX"}`);
       try {
         const config = getImapConfig();
-        const result = await imap.searchMessages(config, mailbox || "INBOX", criteria);
+        const result = (await imap.searchMessages(config, mailbox || "INBOX", criteria)).map(sanitizeEnvelope);
         return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         log(`search_emails error: ${msg}`);
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: msg }) }] };
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
       }
     }
   );
 
-  server.tool(
+  registerTool(
+    server,
     "download_attachment",
-    "Download an email attachment by part number. Returns base64-encoded content.",
+    "Download an email attachment by part number. Returns base64-encoded content, or with save_to_blob=true streams it to the local blob store and returns only a short-lived reference, size and SHA-256 checksum.",
     {
       uid: z.number().describe("Message UID from list_emails or search_emails"),
       part: z.string().describe("Attachment part number from read_email attachments list"),
       mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      save_to_blob: z.boolean().optional().describe("Save to the blob store instead of returning content (default: false). Use the ref as a send_email attachment or fetch it from GET /api/blobs/:id."),
     },
-    async ({ uid, part, mailbox }) => {
-      log(`download_attachment uid=${uid} part=${part}`);
+    async ({ uid, part, mailbox, save_to_blob }) => {
+      log(`download_attachment uid=${uid} part=${part}${save_to_blob ? " save_to_blob" : ""}`);
       try {
         const config = getImapConfig();
-        const result = await imap.downloadAttachment(config, mailbox || "INBOX", uid, part);
+        const result = save_to_blob
+          ? await imap.withAttachmentStream(config, mailbox || "INBOX", uid, part, (stream, meta) => blobs.putBlob(getCurrentAgentId() ?? null, stream, meta))
+          : await imap.downloadAttachment(config, mailbox || "INBOX", uid, part);
         return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         log(`download_attachment error: ${msg}`);
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: msg }) }] };
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "extract_attachment_text",
+    "Extract plain text from an attachment by part number: PDF (with page boundaries), DOCX, XLSX (each sheet as CSV), CSV, plain text, HTML and .eml. Runs locally. Long text is paged like read_email's format option.",
+    {
+      uid: z.number().describe("Message UID from list_emails or search_emails"),
+      part: z.string().describe("Attachment part number from read_email attachments list"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      offset: z.number().optional().describe("Character offset to start from — pass nextOffset from a truncated response to get the next page"),
+      max_chars: z.number().optional().describe(`Max characters per page (default: ${DEFAULT_MAX_CHARS})`),
+    },
+    async ({ uid, part, mailbox, offset, max_chars }) => {
+      log(`extract_attachment_text uid=${uid} part=${part}`);
+      try {
+        const attachment = await imap.fetchAttachment(getImapConfig(), mailbox || "INBOX", uid, part, extractMaxBytes());
+        const extracted = await extractText(attachment.content, attachment.contentType, attachment);
+        // Sanitized before paging so a boundary tag can't be split across pages
+        const { body, ...page } = pageText(sanitizeText(extracted.text), offset, max_chars);
+        const result = {
+          uid,
+          part,
+          contentType: attachment.contentType,
+          ...(attachment.filename ? { filename: sanitizeText(attachment.filename) } : {}),
+          type: extracted.type,
+          ...(extracted.pages !== undefined ? { pages: extracted.pages } : {}),
+          ...(extracted.sheets ? { sheets: extracted.sheets.map(sanitizeText) } : {}),
+          ...page,
+          text: wrapUntrusted(body),
+        };
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`extract_attachment_text error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "set_flags",
+    "Add flags to messages by UID: \\Seen (read), \\Flagged (starred), \\Answered, \\Draft, or custom IMAP keywords like $agent-processed",
+    {
+      uids: z.array(z.number()).min(1).describe("Message UIDs"),
+      flags: z.array(z.string()).min(1).describe("Flags to add, e.g. \\Seen, \\Flagged, $agent-processed"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+    },
+    async ({ uids, flags, mailbox }) => {
+      const mb = mailbox || "INBOX";
+      log(`set_flags uids=${uids.join(",")} flags=${flags.join(",")} mailbox=${mb}`);
+      try {
+        const config = getImapConfig();
+        const ok = await imap.setFlags(config, mb, uids, flags);
+        return { content: [{ type: "text" as const, text: JSON.stringify({ ok, uids, flags: imap.normalizeFlags(flags) }) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`set_flags error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "clear_flags",
+    "Remove flags from messages by UID (e.g. \\Seen to mark unread, \\Flagged to unstar, or a custom keyword)",
+    {
+      uids: z.array(z.number()).min(1).describe("Message UIDs"),
+      flags: z.array(z.string()).min(1).describe("Flags to remove"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+    },
+    async ({ uids, flags, mailbox }) => {
+      const mb = mailbox || "INBOX";
+      log(`clear_flags uids=${uids.join(",")} flags=${flags.join(",")} mailbox=${mb}`);
+      try {
+        const config = getImapConfig();
+        const ok = await imap.clearFlags(config, mb, uids, flags);
+        return { content: [{ type: "text" as const, text: JSON.stringify({ ok, uids, flags: imap.normalizeFlags(flags) }) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`clear_flags error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "move_emails",
+    "Move messages by UID to another mailbox. Returns the new UIDs (uidMap) when the server supports UIDPLUS.",
+    {
+      uids: z.array(z.number()).min(1).describe("Message UIDs"),
+      mailbox: z.string().optional().describe("Source mailbox path (default: INBOX)"),
+      destination: z.string().describe("Destination mailbox path"),
+    },
+    async ({ uids, mailbox, destination }) => {
+      const mb = mailbox || "INBOX";
+      log(`move_emails uids=${uids.join(",")} mailbox=${mb} destination=${destination}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.moveMessages(config, mb, uids, destination);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`move_emails error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
       }
     }
   );
 
-  server.tool(
+  registerTool(
+    server,
+    "copy_emails",
+    "Copy messages by UID to another mailbox. Returns the new UIDs (uidMap) when the server supports UIDPLUS.",
+    {
+      uids: z.array(z.number()).min(1).describe("Message UIDs"),
+      mailbox: z.string().optional().describe("Source mailbox path (default: INBOX)"),
+      destination: z.string().describe("Destination mailbox path"),
+    },
+    async ({ uids, mailbox, destination }) => {
+      const mb = mailbox || "INBOX";
+      log(`copy_emails uids=${uids.join(",")} mailbox=${mb} destination=${destination}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.copyMessages(config, mb, uids, destination);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`copy_emails error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "archive_emails",
+    "Move messages by UID to the server's \\Archive folder. Returns the new UIDs (uidMap) when the server supports UIDPLUS.",
+    {
+      uids: z.array(z.number()).min(1).describe("Message UIDs"),
+      mailbox: z.string().optional().describe("Source mailbox path (default: INBOX)"),
+    },
+    async ({ uids, mailbox }) => {
+      const mb = mailbox || "INBOX";
+      log(`archive_emails uids=${uids.join(",")} mailbox=${mb}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.archiveMessages(config, mb, uids);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`archive_emails error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
+    "delete_emails",
+    "Delete messages by UID: moves them to the \\Trash folder, or expunges them for good with permanent=true.",
+    {
+      uids: z.array(z.number()).min(1).describe("Message UIDs"),
+      mailbox: z.string().optional().describe("Source mailbox path (default: INBOX)"),
+      permanent: z.boolean().optional().describe("Expunge permanently instead of moving to Trash (default: false)"),
+    },
+    async ({ uids, mailbox, permanent }) => {
+      const mb = mailbox || "INBOX";
+      log(`delete_emails uids=${uids.join(",")} mailbox=${mb} permanent=${!!permanent}`);
+      try {
+        const config = getImapConfig();
+        const result = await imap.deleteMessages(config, mb, uids, permanent);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result) }] };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        log(`delete_emails error: ${msg}`);
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  registerTool(
+    server,
     "gate_email",
-    "Securely read an email: fetches it via IMAP, logs the full content to #email-log (human-visible audit log), then returns metadata to the caller. Set read_body=true to also receive the email body — content is always logged before being returned. Use this for all inbound email access.",
+    "Securely read an email: fetches it via IMAP, logs the full content to #email-log (human-visible audit log), then returns metadata to the caller. Set read_body=true to also receive the email body — content is always logged before being returned. With read_body, set format to get one rendered, size-limited body instead of raw text/HTML. Use this for all inbound email access.",
     {
       uid: z.number().describe("Message UID from list_emails or search_emails"),
       mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
       read_body: z.boolean().optional().describe("If true, return email body text/HTML after logging (default: false, metadata only)"),
+      peek: z.boolean().optional().describe("Fetch with BODY.PEEK so the \\Seen flag is left unchanged (default: true). Set false to mark the message read."),
+      ...bodyShape,
     },
-    async ({ uid, mailbox, read_body }) => {
+    async ({ uid, mailbox, read_body, peek, ...bodyArgs }) => {
       const mb = mailbox || "INBOX";
       log(`gate_email uid=${uid} mailbox=${mb}`);
       try {
-        const imapConfig = getImapConfig();
-        const email = await imap.getMessage(imapConfig, mb, uid);
-
-        // Log full content to #email-log BEFORE returning anything to caller
-        const commsUrl = getEnv("COMMS_URL") ?? "http://127.0.0.1:9754";
-        const commsToken = getEnv("COMMS_TOKEN");
-        const agentId = getCurrentAgentId() ?? "unknown";
-
-        const attachmentList = email.attachments.length > 0
-          ? email.attachments.map(a => `${a.filename} (${a.contentType}, ${a.size ?? "?"}B)`).join(", ")
-          : "(none)";
-
-        const logLines = [
-          `[gate_email] uid=${uid} mailbox=${mb} agent=${agentId}`,
-          `From: ${email.from}`,
-          `To: ${email.to}`,
-          `Subject: ${email.subject}`,
-          `Date: ${email.date}`,
-          `MessageId: ${email.messageId ?? "(none)"}`,
-          email.cc ? `Cc: ${email.cc}` : null,
-          `Attachments: ${attachmentList}`,
-          `---`,
-          email.text ?? email.html ?? "(no body)",
-        ].filter(Boolean).join("\n");
-
-        let logged = false;
-        if (commsToken) {
-          try {
-            const logResp = await fetch(`${commsUrl}/api/channels/email-log/messages`, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                "Authorization": `Bearer ${commsToken}`,
-              },
-              body: JSON.stringify({ message: logLines }),
-            });
-            logged = logResp.ok;
-            if (!logged) {
-              log(`gate_email: failed to log to #email-log: ${logResp.status}`);
-            }
-          } catch (e) {
-            log(`gate_email: comms error: ${e instanceof Error ? e.message : e}`);
-          }
-        } else {
-          log(`gate_email: no COMMS_TOKEN configured, skipping #email-log`);
-        }
+        const { email, logged } = await gateMessage(mb, uid, peek === false);
 
         // Return safe metadata. Subject/messageId excluded (attacker-controlled, injection defense).
         // Body only included if read_body=true — content is already logged before this point.
         const responseData: Record<string, unknown> = {
           uid: email.uid,
-          from: email.from,
+          from: sanitizeText(email.from),
           date: email.date,
           logged,
           email_log_channel: "email-log",
         };
-        if (read_body) {
-          // Strip all untrusted tag variants to prevent boundary escape, then wrap in untrusted tags
-          const stripUntrusted = (s: string) =>
-            s.replace(/<\/?untrusted>/gi, "[TAG_STRIPPED]")
-             .replace(/\[\/untrusted\]/gi, "[TAG_STRIPPED]")
-             .replace(/\{\/untrusted\}/gi, "[TAG_STRIPPED]");
-          if (email.text) {
-            responseData.text = `<untrusted>\n${stripUntrusted(email.text)}\n</untrusted>`;
-          }
-          if (email.html) {
-            responseData.html = `<untrusted>\n${stripUntrusted(email.html)}\n</untrusted>`;
-          }
+        const page = read_body ? renderArgs(email, bodyArgs) : null;
+        if (page) {
+          Object.assign(responseData, page, { body: wrapUntrusted(page.body) });
+        } else if (read_body) {
+          const nonce = newNonce();
+          const { text, html, ...paging } = pageRaw({ text: email.text || undefined, html: email.html ? sanitizeHtml(email.html) : undefined }, bodyArgs.offset, bodyArgs.max_chars);
+          Object.assign(responseData, paging);
+          if (text) responseData.text = wrapUntrusted(text, nonce);
+          if (html) responseData.html = wrapUntrusted(html, nonce);
         }
         return {
           content: [{
@@ -259,8 +907,168 @@ function createMcpServer(): McpServer {
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         log(`gate_email error: ${msg}`);
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: msg }) }] };
+        return { content: [{ type: "text" as const, text: JSON.stringify(toolError(error)) }] };
+      }
+    }
+  );
+
+  // --- Resources: browse mail without tool calls. Reads go through the same gate as gate_email. ---
+
+  registerResource(
+    server,
+    "mailbox",
+    new ResourceTemplate("mailbox://{path}", {
+      // resources/list: the calling agent's own mailboxes
+      list: async () => {
+        const scopes = getToolScopes();
+        const mailboxes = (await imap.listMailboxes(getImapConfig())).filter(mb => mailboxAllowed(mb.path, "read", scopes));
+        return {
+          resources: mailboxes.map(mb => ({
+            uri: `mailbox://${encodeURIComponent(mb.path)}`,
+            name: mb.path,
+            description: `${mb.messages ?? "?"} messages, ${mb.unseen ?? "?"} unseen`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    { description: "Newest 50 message envelopes in a mailbox (path is URI-encoded)", mimeType: "application/json" },
+    async (uri, { path }) => {
+      const mb = parseMailboxSegment(path);
+      checkMailbox(mb, "read");
+      log(`resource mailbox://${mb}`);
+      const result = (await imap.listMessages(getImapConfig(), mb, 50, 0)).map(sanitizeEnvelope);
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(result) }] };
+    }
+  );
+
+  registerResource(
+    server,
+    "email",
+    new ResourceTemplate("email://{mailbox}/{uid}", { list: undefined }),
+    { description: "A message, logged to #email-log before it is returned (like gate_email with read_body)", mimeType: "application/json" },
+    async (uri, { mailbox, uid }) => {
+      const mb = parseMailboxSegment(mailbox);
+      const n = parseUid(uid);
+      checkMailbox(mb, "read");
+      log(`resource email://${mb}/${n}`);
+      const { email, logged } = await gateMessage(mb, n, false);
+      const nonce = newNonce();
+      const data = {
+        uid: email.uid,
+        from: sanitizeText(email.from),
+        date: email.date,
+        logged,
+        email_log_channel: "email-log",
+        // Filenames are sender-controlled, so only structural fields (like gate_email's metadata)
+        attachments: email.attachments.map(a => ({
+          part: a.part,
+          contentType: a.contentType,
+          size: a.size,
+          uri: `email://${encodeURIComponent(mb)}/${email.uid}/attachments/${a.part}`,
+        })),
+        ...(email.text ? { text: wrapUntrusted(email.text, nonce) } : {}),
+        ...(email.html ? { html: wrapUntrusted(sanitizeHtml(email.html), nonce) } : {}),
+      };
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data) }] };
+    }
+  );
+
+  registerResource(
+    server,
+    "attachment",
+    new ResourceTemplate("email://{mailbox}/{uid}/attachments/{part}", { list: undefined }),
+    { description: "Attachment bytes with the attachment's own MIME type" },
+    async (uri, { mailbox, uid, part }) => {
+      const mb = parseMailboxSegment(mailbox);
+      const n = parseUid(uid);
+      if (!/^\d+(\.\d+)*$/.test(String(part))) throw new Error(`Invalid part: ${part}`);
+      checkMailbox(mb, "read");
+      log(`resource email://${mb}/${n}/attachments/${part}`);
+      const result = await imap.downloadAttachment(getImapConfig(), mb, n, String(part));
+      const agentId = getCurrentAgentId() ?? "unknown";
+      const posted = await postToChannel("email-log", `[attachment] uid=${n} mailbox=${mb} part=${part} agent=${agentId} (${result.contentType})`);
+      if (!posted.ok) log(`attachment resource: failed to log to #email-log: ${posted.reason}`);
+      return { contents: [{ uri: uri.href, mimeType: result.contentType, blob: result.content }] };
+    }
+  );
+
+  // --- Prompts: common workflows with gated, <untrusted-NONCE>-wrapped content pre-filled ---
+
+  registerPrompt(
+    server,
+    "triage_inbox",
+    "Classify unread messages and propose actions (reply, flag, archive)",
+    {
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      limit: z.string().optional().describe("Max unread messages to include (default: 20, max 50)"),
+    },
+    async ({ mailbox, limit }) => {
+      const mb = mailbox || "INBOX";
+      const n = Math.min(parsePositive(limit, 20, "limit"), 50);
+      checkMailbox(mb, "read");
+      log(`prompt triage_inbox mailbox=${mb}`);
+      const unread = await imap.searchMessages(getImapConfig(), mb, { unseen: true });
+      return triagePrompt(mb, unread.slice(0, n));
+    }
+  );
+
+  registerPrompt(
+    server,
+    "draft_reply",
+    "Draft a reply to a message; its content is logged to #email-log before it is embedded",
+    {
+      uid: z.string().describe("UID of the message to reply to"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      instructions: z.string().optional().describe("What the reply should say or achieve"),
+    },
+    async ({ uid, mailbox, instructions }) => {
+      const mb = mailbox || "INBOX";
+      const n = parseUid(uid);
+      checkMailbox(mb, "read");
+      log(`prompt draft_reply uid=${n} mailbox=${mb}`);
+      const { email } = await gateMessage(mb, n, false);
+      return draftReplyPrompt(mb, email, instructions);
+    }
+  );
+
+  registerPrompt(
+    server,
+    "summarize_thread",
+    "Summarize the conversation a message belongs to; the thread is logged to #email-log before it is embedded",
+    {
+      uid: z.string().describe("UID of any message in the thread"),
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+    },
+    async ({ uid, mailbox }) => {
+      const mb = mailbox || "INBOX";
+      const n = parseUid(uid);
+      checkMailbox(mb, "read");
+      log(`prompt summarize_thread uid=${n} mailbox=${mb}`);
+      const thread = await gateThread(mb, n);
+      return threadSummaryPrompt(mb, n, thread);
+    }
+  );
+
+  registerPrompt(
+    server,
+    "daily_digest",
+    "Digest of mail received in a date range (envelopes only; bodies via gate_email)",
+    {
+      mailbox: z.string().optional().describe("Mailbox path (default: INBOX)"),
+      since: z.string().optional().describe("Start date YYYY-MM-DD (default: yesterday)"),
+      before: z.string().optional().describe("End date YYYY-MM-DD, exclusive (default: none)"),
+    },
+    async ({ mailbox, since, before }) => {
+      const mb = mailbox || "INBOX";
+      const from = since ?? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      for (const [name, value] of [["since", from], ["before", before]] as const) {
+        if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) throw new Error(`Invalid ${name} date: ${value} (expected YYYY-MM-DD)`);
       }
+      checkMailbox(mb, "read");
+      log(`prompt daily_digest mailbox=${mb} since=${from}${before ? ` before=${before}` : ""}`);
+      const envelopes = await imap.searchMessages(getImapConfig(), mb, { since: from, before });
+      return digestPrompt(mb, from, before, envelopes);
     }
   );
 
@@ -270,55 +1078,120 @@ function createMcpServer(): McpServer {
 // --- Express ---
 
 const app = express();
-app.use(express.json());
+// Blob uploads are raw bytes — any content type, including JSON — so they skip the JSON parser
+const jsonBody = express.json();
+app.use((req, res, next) => (req.path === "/api/blobs" ? next() : jsonBody(req, res, next)));
+app.use("/api", auditRequest);
 
-app.post("/mcp", authenticate, async (req: Request, res: Response) => {
-  const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
-  try {
+const MCP_ERROR = (code: number, message: string) => ({ jsonrpc: "2.0", error: { code, message }, id: null });
+
+// Stateless by default: fresh server + transport per POST. With MCP_STATEFUL=true, initialize
+// opens a session (Mcp-Session-Id) that later POST/GET/DELETE requests are routed to.
+async function resolveTransport(req: Request, res: Response, agentId: string | null): Promise<StreamableHTTPServerTransport | null> {
+  if (!getServerConfig().stateful) {
+    if (req.method !== "POST") {
+      res.status(405).set("Allow", "POST").json(MCP_ERROR(-32000, "Method not allowed: server is stateless"));
+      return null;
+    }
     const server = createMcpServer();
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined, // stateless — new instance per request
     });
     await server.connect(transport);
+    return transport;
+  }
 
-    if (agentId) {
-      await runWithAgent(agentId, () => transport.handleRequest(req, res, req.body));
-    } else {
-      await transport.handleRequest(req, res, req.body);
-    }
+  const sessionId = req.get("mcp-session-id");
+  if (sessionId) {
+    const transport = sessions.useSession(sessionId, agentId, res);
+    if (!transport) res.status(404).json(MCP_ERROR(-32001, "Session not found"));
+    return transport;
+  }
+  if (req.method === "POST" && isInitializeRequest(req.body)) {
+    return sessions.openSession(agentId, createMcpServer);
+  }
+  res.status(400).json(MCP_ERROR(-32000, "Bad Request: Mcp-Session-Id header is required"));
+  return null;
+}
+
+async function handleMcp(req: Request, res: Response): Promise<void> {
+  const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
+  // The server is created in the agent's context too, so its tool scopes apply
+  const inAgent = <T>(fn: () => Promise<T>): Promise<T> => (agentId ? runWithAgent(agentId, fn) : fn());
+  try {
+    const transport = await inAgent(() => resolveTransport(req, res, agentId ?? null));
+    if (!transport) return;
+    await inAgent(() => transport.handleRequest(req, res, req.body));
   } catch (error) {
     console.error("MCP request error:", error);
     if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: "2.0",
-        error: { code: -32603, message: "Internal server error" },
-        id: null,
-      });
+      res.status(500).json(MCP_ERROR(-32603, "Internal server error"));
     }
   }
-});
+}
+
+app.post("/mcp", authenticate, handleMcp);
+app.get("/mcp", authenticate, handleMcp);
+app.delete("/mcp", authenticate, handleMcp);
 
 app.get("/health", (_req: Request, res: Response) => {
-  res.json({ status: "ok" });
+  // Aggregate counts only — per-agent detail is behind auth at /api/imap-pool
+  const pools = getPoolStats();
+  res.json({
+    status: "ok",
+    imapPool: {
+      pools: pools.length,
+      open: pools.reduce((n, p) => n + p.open, 0),
+      inUse: pools.reduce((n, p) => n + p.inUse, 0),
+      waiting: pools.reduce((n, p) => n + p.waiting, 0),
+    },
+    imapIdle: watch.getWatcherStats().length,
+    mcpSessions: sessions.getSessionStats().length,
+  });
 });
 
 // --- REST endpoints (non-MCP, for daemon polling) ---
 
 app.get("/api/check-email", authenticate, async (req: Request, res: Response) => {
   const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
-  const sinceUid = parseInt(req.query.since_uid as string || "0", 10);
-  if (isNaN(sinceUid) || sinceUid < 0) {
+  const sinceUid = req.query.since_uid === undefined ? undefined : parseInt(req.query.since_uid as string, 10);
+  if (sinceUid !== undefined && (isNaN(sinceUid) || sinceUid < 0)) {
     res.status(400).json({ error: "Invalid since_uid parameter" });
     return;
   }
+  // ?mailbox= may repeat to check several mailboxes in one call
+  const mailboxes = ([] as unknown[]).concat(req.query.mailbox ?? []).filter((m): m is string => typeof m === "string" && m !== "");
+  let positions: MailboxPosition[];
+  try {
+    positions = resolvePositions({ cursor: req.query.cursor as string | undefined, mailboxes, sinceUid });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  const scopes = agentId ? runWithAgent(agentId, getToolScopes) : getToolScopes();
+  const denied = positions.find(p => !mailboxAllowed(p.mailbox, "read", scopes));
+  if (denied) {
+    res.status(403).json(new ScopeError(denied.mailbox, "read"));
+    return;
+  }
   try {
     const fn = async () => {
       const imapConfig = getImapConfig();
-      return await imap.checkNewEmail(imapConfig, sinceUid);
+      const checks: imap.MailboxCheck[] = [];
+      for (const p of positions) checks.push(await imap.checkMailbox(imapConfig, p.mailbox, p.lastUid, p.uidValidity));
+      return checks;
     };
-    const messages = agentId ? await runWithAgent(agentId, fn) : await fn();
-    log(`check-email since_uid=${sinceUid} found=${messages.length}`);
-    res.json({ messages });
+    const checks = agentId ? await runWithAgent(agentId, fn) : await fn();
+    const messages = checks.flatMap(c => c.messages.map(m => ({ ...m, mailbox: c.mailbox })));
+    for (const c of checks) {
+      if (c.uidValidityChanged) log(`check-email ${c.mailbox}: UIDVALIDITY changed ${c.uidValidityChanged.previous} → ${c.uidValidityChanged.current}`);
+    }
+    log(`check-email ${positions.map(p => `${p.mailbox}>${p.lastUid}`).join(",")} found=${messages.length}`);
+    res.json({
+      messages,
+      mailboxes: checks.map(({ messages: found, ...c }) => ({ ...c, count: found.length })),
+      cursor: encodeCursor(checks.map(c => ({ mailbox: c.mailbox, uidValidity: c.uidValidity, lastUid: c.lastUid }))),
+    });
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
     log(`check-email error: ${msg}`);
@@ -326,14 +1199,362 @@ app.get("/api/check-email", authenticate, async (req: Request, res: Response) =>
   }
 });
 
+// --- Server-Sent Events: new-mail / flag / expunge push from an IMAP IDLE watcher ---
+// Resume with Last-Event-ID (sent by EventSource on reconnect) or ?since_uid=; messages
+// above that UID are backfilled before live events. Only "new" events carry an id.
+
+function writeMailEvent(res: Response, event: watch.MailEvent): void {
+  const { type, ...data } = event;
+  const id = type === "new" ? `id: ${event.uid}\n` : "";
+  res.write(`${id}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+app.get("/api/events", authenticate, async (req: Request, res: Response) => {
+  const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
+  const mailbox = (req.query.mailbox as string) || "INBOX";
+  const resumeFrom = req.get("last-event-id") ?? (req.query.since_uid as string | undefined);
+  const sinceUid = resumeFrom === undefined ? undefined : parseInt(resumeFrom, 10);
+  if (sinceUid !== undefined && (isNaN(sinceUid) || sinceUid < 0)) {
+    res.status(400).json({ error: "Invalid since_uid / Last-Event-ID" });
+    return;
+  }
+  if (!mailboxAllowed(mailbox, "read", agentId ? runWithAgent(agentId, getToolScopes) : getToolScopes())) {
+    res.status(403).json(new ScopeError(mailbox, "read"));
+    return;
+  }
+
+  // Live events that arrive while the backfill runs are held, then de-duplicated by UID
+  const held: watch.MailEvent[] = [];
+  let streaming = false;
+  let lastNewUid = sinceUid ?? 0;
+  const send = (event: watch.MailEvent) => {
+    if (event.type === "new") {
+      if (event.uid <= lastNewUid) return;
+      lastNewUid = event.uid;
+    }
+    writeMailEvent(res, event);
+  };
+
+  // Registered before the first await, so a client that leaves while the watcher starts or
+  // the backfill runs doesn't leave its subscription behind
+  let closed = false;
+  let unsubscribe: (() => void) | undefined;
+  let heartbeat: NodeJS.Timeout | undefined;
+  res.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+    unsubscribe = undefined;
+    log(`events ${agentId ?? "default"}/${mailbox} closed`);
+  });
+
+  let backfill: imap.NewEmailEntry[] = [];
+  try {
+    const fn = async () => {
+      const imapConfig = getImapConfig();
+      const stop = await watch.subscribe(agentId ?? "default", imapConfig, mailbox, event => {
+        if (streaming) send(event);
+        else held.push(event);
+      });
+      if (closed) {
+        stop();
+        return;
+      }
+      unsubscribe = stop;
+      if (sinceUid !== undefined) {
+        try {
+          backfill = await imap.checkNewEmail(imapConfig, sinceUid, mailbox);
+        } catch (error) {
+          unsubscribe?.();
+          unsubscribe = undefined;
+          throw error;
+        }
+      }
+    };
+    if (agentId) await runWithAgent(agentId, fn);
+    else await fn();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log(`events error: ${msg}`);
+    if (!closed) res.status(500).json({ error: msg });
+    return;
+  }
+  if (closed) return;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(": connected\n\n");
+  for (const entry of backfill.sort((a, b) => a.uid - b.uid)) send({ type: "new", mailbox, ...entry });
+  for (const event of held) send(event);
+  streaming = true;
+  log(`events ${agentId ?? "default"}/${mailbox} subscribed since_uid=${sinceUid ?? "-"} backfilled=${backfill.length}`);
+
+  // Comment lines keep proxies from timing out an idle stream
+  heartbeat = setInterval(() => res.write(": ping\n\n"), 25_000);
+});
+
+app.get("/api/imap-pool", authenticate, (req: Request, res: Response) => {
+  const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
+  res.json({ pools: getPoolStats(agentId ?? "default") });
+});
+
+// --- Blob store: upload raw bytes, get a short-lived reference back ---
+
+app.post("/api/blobs", authenticate, async (req: Request, res: Response) => {
+  const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
+  const filename = (req.query.filename as string | undefined) ?? req.get("x-filename");
+  const declared = parseInt(req.get("content-length") ?? "", 10);
+  const { maxBytes } = blobs.blobSettings();
+  if (declared > maxBytes) {
+    res.status(413).json({ error: new blobs.BlobTooLargeError(declared, maxBytes).message });
+    return;
+  }
+  try {
+    const ref = await blobs.putBlob(agentId ?? null, req, { filename, contentType: req.get("content-type") });
+    log(`blob upload ${ref.ref} size=${ref.size}`);
+    res.status(201).json(ref);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log(`blob upload error: ${msg}`);
+    res.status(error instanceof blobs.BlobTooLargeError ? 413 : 500).json({ error: msg });
+  }
+});
+
+app.get("/api/blobs/:id", authenticate, async (req: Request, res: Response) => {
+  const agentId = (req as unknown as Record<string, unknown>).agentId as string | undefined;
+  const meta = blobs.getBlob(String(req.params.id), agentId ?? null);
+  if (!meta) {
+    res.status(404).json({ error: "Blob not found or expired" });
+    return;
+  }
+  let content: Readable;
+  try {
+    content = await blobs.openBlob(meta);
+  } catch (error) {
+    const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+    if (!missing) log(`blobs: cannot open ${meta.id}: ${error instanceof Error ? error.message : error}`);
+    res.status(missing ? 404 : 500).json({ error: missing ? "Blob not found or expired" : "Failed to read blob" });
+    return;
+  }
+  res.set({
+    "Content-Type": meta.contentType,
+    "Content-Length": String(meta.size),
+    "X-Content-SHA256": meta.sha256,
+    "X-Blob-Expires": meta.expiresAt,
+    ...(meta.filename ? { "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(meta.filename)}` } : {}),
+  });
+  // A failure mid-stream can't change the status any more; pipeline closes the response instead
+  pipeline(content, res).catch(error => log(`blobs: download of ${meta.id} aborted: ${error instanceof Error ? error.message : error}`));
+});
+
+// --- Agent config reload (admin, SIGHUP, AGENTS_DIR changes) ---
+
+function reloadConfig(trigger: string): ReturnType<typeof reloadAgentsConfig> {
+  const result = reloadAgentsConfig();
+  log(`config reloaded (${trigger}): ${result.agents.length} agents, added=${result.added.join(",") || "-"} removed=${result.removed.join(",") || "-"} changed=${result.changed.join(",") || "-"}`);
+  for (const e of result.errors) log(`config: agent ${e.agent} not reloaded: ${e.error}`);
+  webhooks.syncMailWebhooks(result).catch(e => log(`webhooks: ${e instanceof Error ? e.message : e}`));
+  // Changed agents' pools are retired when a request opens one with the new credentials
+  closeAgentPools(result.removed).catch(e => log(`imap pool: ${e instanceof Error ? e.message : e}`));
+  return result;
+}
+
+app.post("/api/admin/reload", authenticateAdmin, (_req: Request, res: Response) => {
+  try {
+    res.json(reloadConfig("api"));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log(`config reload failed, keeping current config: ${msg}`);
+    res.status(500).json({ error: msg });
+  }
+});
+
+// --- Audit log (admin) ---
+
+app.get("/api/audit", authenticateAdmin, async (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string || "100", 10);
+  if (isNaN(limit) || limit < 1) {
+    res.status(400).json({ error: "Invalid limit parameter" });
+    return;
+  }
+  const entries = await queryAudit({
+    agentId: req.query.agent as string | undefined,
+    name: req.query.tool as string | undefined,
+    since: req.query.since as string | undefined,
+    until: req.query.until as string | undefined,
+    limit: Math.min(limit, 1000),
+  });
+  res.json({ entries });
+});
+
+// --- Outbox approval (admin) ---
+
+app.get("/api/outbox", authenticateAdmin, (req: Request, res: Response) => {
+  const status = req.query.status as outbox.OutboxStatus | undefined;
+  const agentId = req.query.agent as string | undefined;
+  res.json({ items: outbox.listItems({ status, agentId }).map(item => ({ ...outbox.summarize(item), agentId: item.agentId, tool: item.tool })) });
+});
+
+app.get("/api/outbox/:id", authenticateAdmin, (req: Request, res: Response) => {
+  const item = outbox.getItem(req.params.id as string);
+  if (!item) {
+    res.status(404).json({ error: "Outbox item not found" });
+    return;
+  }
+  res.json(item);
+});
+
+// Move a pending item to approved/rejected, or respond 404/409 and return null
+function decideOrRespond(req: Request, res: Response, status: "approved" | "rejected", reason?: string): outbox.OutboxItem | null {
+  const id = req.params.id as string;
+  if (!outbox.getItem(id)) {
+    res.status(404).json({ error: "Outbox item not found" });
+    return null;
+  }
+  try {
+    const item = outbox.decide(id, status, reason);
+    log(`outbox ${status} id=${id} agent=${item.agentId ?? "default"}`);
+    return item;
+  } catch (error) {
+    res.status(409).json({ error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+// Why a queued send_draft item can't be sent as queued (the draft was updated, replaced
+// or removed since), or null when the draft is unchanged. Runs in the agent's context.
+async function queuedDraftProblem(item: outbox.OutboxItem): Promise<string | null> {
+  const uid = item.draftUid!;
+  let source: Buffer;
+  try {
+    source = await imap.getDraftSource(getImapConfig(), uid);
+  } catch (error) {
+    return `Draft ${uid} can no longer be read (${error instanceof Error ? error.message : error}); it was changed or removed after it was queued — send it again with send_draft`;
+  }
+  if (item.draftDigest && outbox.draftDigest(source) !== item.draftDigest) {
+    return `Draft ${uid} has changed since it was queued — send it again with send_draft`;
+  }
+  return null;
+}
+
+app.post("/api/outbox/:id/approve", authenticateAdmin, async (req: Request, res: Response) => {
+  const item = decideOrRespond(req, res, "approved");
+  if (!item) return;
+  const asAgent = <T>(fn: () => Promise<T>) => (item.agentId ? runWithAgent(item.agentId, fn) : fn());
+  if (item.draftUid !== undefined) {
+    const problem = await asAgent(() => queuedDraftProblem(item));
+    if (problem) {
+      log(`outbox draft check failed id=${item.id}: ${problem}`);
+      res.status(409).json(outbox.complete(item, { error: problem }));
+      return;
+    }
+  }
+  // Send as the agent that composed it, with that agent's SMTP/IMAP credentials
+  const fn = () => deliver(item.tool, item.message, item.draftUid);
+  try {
+    const result = await asAgent(fn);
+    res.json(outbox.complete(item, { result }));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log(`outbox send error id=${item.id}: ${msg}`);
+    res.status(502).json(outbox.complete(item, { error: msg }));
+  }
+});
+
+app.post("/api/outbox/:id/reject", authenticateAdmin, (req: Request, res: Response) => {
+  const reason = typeof req.body?.reason === "string" ? req.body.reason : undefined;
+  const item = decideOrRespond(req, res, "rejected", reason);
+  if (item) res.json(item);
+});
+
+// --- Webhook deliveries (admin) ---
+
+app.get("/api/webhooks/deliveries", authenticateAdmin, (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string || "100", 10);
+  if (isNaN(limit) || limit < 1) {
+    res.status(400).json({ error: "Invalid limit parameter" });
+    return;
+  }
+  const deliveries = webhooks.listDeliveries({
+    status: req.query.status as webhooks.DeliveryStatus | undefined,
+    agentId: req.query.agent as string | undefined,
+    event: req.query.event as string | undefined,
+    limit: Math.min(limit, 1000),
+  });
+  res.json({ deliveries });
+});
+
+app.get("/api/webhooks/deliveries/:id", authenticateAdmin, (req: Request, res: Response) => {
+  const delivery = webhooks.getDelivery(req.params.id as string);
+  if (!delivery) {
+    res.status(404).json({ error: "Webhook delivery not found" });
+    return;
+  }
+  res.json(delivery);
+});
+
+app.post("/api/webhooks/deliveries/:id/replay", authenticateAdmin, async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!webhooks.getDelivery(id)) {
+    res.status(404).json({ error: "Webhook delivery not found" });
+    return;
+  }
+  let delivery: webhooks.WebhookDelivery;
+  try {
+    delivery = await webhooks.replayDelivery(id);
+  } catch (error) {
+    res.status(409).json({ error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  log(`webhook replay id=${id} ${delivery.status}`);
+  res.status(delivery.status === "delivered" ? 200 : 502).json(delivery);
+});
+
 // --- Start ---
 
 async function main() {
   const config = getServerConfig();
-  app.listen(config.port, config.host, () => {
+  // Every misconfigured agent is reported at once and left out; the valid agents still start
+  // (`fagents-mcp config check` is the strict, non-zero-exit check)
+  const configErrors = getConfigErrors();
+  for (const e of configErrors) log(`config: agent ${e.agent}: ${e.error}`);
+  if (configErrors.length) log(`${configErrors.length} configuration problem(s) — starting without the agents listed above`);
+  for (const item of outbox.failInterrupted()) log(`outbox id=${item.id} was interrupted during send, marked failed`);
+  const httpServer = app.listen(config.port, config.host, () => {
     log(`fagents-mcp listening on http://${config.host}:${config.port}/mcp`);
-    log(`7 email tools registered`);
+    log(`26 email tools registered${config.stateful ? " (stateful sessions)" : ""}`);
   });
+  webhooks.startMailWebhooks().catch(e => log(`webhooks: ${e instanceof Error ? e.message : e}`));
+  try {
+    webhooks.startDeliveryMaintenance();
+  } catch (e) {
+    log(`webhooks: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const reload = (trigger: string) => {
+    try {
+      reloadConfig(trigger);
+    } catch (error) {
+      log(`config reload failed, keeping current config: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+  process.on("SIGHUP", () => reload("SIGHUP"));
+  const unwatch = getEnv("AGENTS_WATCH") === "false" ? () => {} : watchAgentsConfig(() => reload("config files changed"));
+
+  const shutdown = (signal: string) => {
+    log(`${signal} received, closing IMAP pool`);
+    unwatch();
+    watch.closeWatchers();
+    sessions.closeSessions();
+    httpServer.close();
+    closePool().finally(() => process.exit(0));
+  };
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
 }
 
 main().catch(console.error);
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import type { Request, Response } from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { createEventStore, openSession, useSession, getSessionStats, closeSessions } from "./sessions.js";
+import { getCurrentAgentId, runWithAgent } from "./config.js";
+
+const ACCEPT = "application/json, text/event-stream";
+const initialize = {
+  jsonrpc: "2.0", id: 1, method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "0" } },
+};
+
+function createServer() {
+  const server = new McpServer({ name: "test", version: "0" });
+  server.tool("whoami", "Current agent", {}, async () => ({ content: [{ type: "text" as const, text: getCurrentAgentId() ?? "none" }] }));
+  return server;
+}
+
+// Minimal /mcp wiring mirroring server.ts in stateful mode; agent comes from x-agent
+function buildApp() {
+  const app = express();
+  app.use(express.json());
+  app.all("/mcp", async (req: Request, res: Response) => {
+    const agentId = req.get("x-agent") ?? null;
+    const sessionId = req.get("mcp-session-id");
+    let transport;
+    if (sessionId) {
+      transport = useSession(sessionId, agentId, res);
+      if (!transport) {
+        res.status(404).json({ error: "Session not found" });
+        return;
+      }
+    } else if (isInitializeRequest(req.body)) {
+      transport = await openSession(agentId, createServer);
+    } else {
+      res.status(400).json({ error: "Mcp-Session-Id header is required" });
+      return;
+    }
+    await runWithAgent(agentId ?? "default", () => transport.handleRequest(req, res, req.body));
+  });
+  return app;
+}
+
+// Responses come back as SSE; pull the JSON-RPC payload out of the data line
+function rpcResult(text: string) {
+  const data = text.split("\n").find(l => l.startsWith("data: "));
+  return JSON.parse(data!.slice(6));
+}
+
+async function open(app: express.Express, agent: string): Promise<string> {
+  const res = await request(app).post("/mcp").set("x-agent", agent).set("Accept", ACCEPT).send(initialize);
+  expect(res.status).toBe(200);
+  const id = res.headers["mcp-session-id"];
+  await request(app).post("/mcp").set("x-agent", agent).set("mcp-session-id", id).set("Accept", ACCEPT)
+    .send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  return id;
+}
+
+describe("sessions", () => {
+  afterEach(() => {
+    closeSessions();
+  });
+
+  it("keeps a bounded, replayable history per stream", async () => {
+    const store = createEventStore(2);
+    const msg = (id: number) => ({ jsonrpc: "2.0", id, result: {} }) as JSONRPCMessage;
+    const first = await store.storeEvent("s1", msg(1));
+    const second = await store.storeEvent("s1", msg(2));
+    await store.storeEvent("s1", msg(3));
+    await store.storeEvent("s2", msg(9));
+
+    const replayed: unknown[] = [];
+    const send = async (_id: string, m: JSONRPCMessage) => { replayed.push((m as { id: number }).id); };
+    expect(await store.replayEventsAfter(second, { send })).toBe("s1");
+    expect(replayed).toEqual([3]);
+
+    // first aged out of the 2-event window: everything still held is replayed
+    replayed.length = 0;
+    await store.replayEventsAfter(first, { send });
+    expect(replayed).toEqual([2, 3]);
+    expect(await store.getStreamIdForEventId!("nope_1")).toBeUndefined();
+  });
+
+  it("routes requests to the agent's session", async () => {
+    const app = buildApp();
+    const id = await open(app, "coo");
+    expect(getSessionStats("coo")).toMatchObject([{ id, agentId: "coo" }]);
+
+    const res = await request(app).post("/mcp").set("x-agent", "coo").set("mcp-session-id", id).set("Accept", ACCEPT)
+      .send({ jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "whoami", arguments: {} } });
+    expect(rpcResult(res.text).result.content[0].text).toBe("coo");
+  });
+
+  it("hides sessions from other agents", async () => {
+    const app = buildApp();
+    const id = await open(app, "coo");
+    const res = await request(app).post("/mcp").set("x-agent", "dev").set("mcp-session-id", id).set("Accept", ACCEPT)
+      .send({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+    expect(res.status).toBe(404);
+  });
+
+  it("tears sessions down on DELETE", async () => {
+    const app = buildApp();
+    const id = await open(app, "coo");
+    const del = await request(app).delete("/mcp").set("x-agent", "coo").set("mcp-session-id", id);
+    expect(del.status).toBe(200);
+    expect(getSessionStats()).toEqual([]);
+    const res = await request(app).post("/mcp").set("x-agent", "coo").set("mcp-session-id", id).set("Accept", ACCEPT)
+      .send({ jsonrpc: "2.0", id: 3, method: "tools/list" });
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,152 @@
+import { randomUUID } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// --- Stateful MCP sessions (MCP_STATEFUL=true) ---
+// One McpServer + transport per session, bound to the agent that initialized it.
+// Each session keeps a bounded event history so clients can resume a dropped SSE
+// stream with Last-Event-ID. Sessions idle longer than MCP_SESSION_TTL_MS are closed.
+
+interface Session {
+  id: string;
+  agentId: string | null;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  createdAt: number;
+  lastSeen: number;
+  /** Requests/streams currently open — a session with an open GET stream never expires */
+  active: number;
+}
+
+export interface SessionStats {
+  id: string;
+  agentId: string | null;
+  createdAt: string;
+  lastSeen: string;
+  active: number;
+}
+
+const sessions = new Map<string, Session>();
+let sweepTimer: NodeJS.Timeout | undefined;
+
+const log = (msg: string) => console.log(`[${new Date().toISOString()}] ${msg}`);
+
+function sessionSettings() {
+  const ttlMs = parseInt(process.env.MCP_SESSION_TTL_MS ?? "", 10);
+  const history = parseInt(process.env.MCP_EVENT_HISTORY ?? "", 10);
+  return {
+    ttlMs: isNaN(ttlMs) || ttlMs <= 0 ? 30 * 60 * 1000 : ttlMs,
+    history: isNaN(history) || history < 1 ? 500 : history,
+  };
+}
+
+/** In-memory event store keeping the last `limit` events of each stream. Event IDs are "<streamId>_<seq>". */
+export function createEventStore(limit: number): EventStore {
+  const streams = new Map<StreamId, Array<{ id: EventId; message: JSONRPCMessage }>>();
+  let seq = 0;
+  const streamOf = (eventId: EventId) => eventId.slice(0, eventId.lastIndexOf("_"));
+
+  return {
+    async storeEvent(streamId, message) {
+      const id = `${streamId}_${++seq}`;
+      const events = streams.get(streamId) ?? [];
+      events.push({ id, message });
+      if (events.length > limit) events.splice(0, events.length - limit);
+      streams.set(streamId, events);
+      return id;
+    },
+    async getStreamIdForEventId(eventId) {
+      const streamId = streamOf(eventId);
+      return streams.has(streamId) ? streamId : undefined;
+    },
+    async replayEventsAfter(lastEventId, { send }) {
+      const streamId = streamOf(lastEventId);
+      const events = streams.get(streamId) ?? [];
+      const index = events.findIndex(e => e.id === lastEventId);
+      // lastEventId aged out of the history: replay everything still held
+      for (const event of events.slice(index + 1)) await send(event.id, event.message);
+      return streamId;
+    },
+  };
+}
+
+function sweep(): void {
+  const { ttlMs } = sessionSettings();
+  const now = Date.now();
+  for (const session of sessions.values()) {
+    if (session.active === 0 && now - session.lastSeen > ttlMs) {
+      log(`mcp session ${session.id} expired (agent=${session.agentId ?? "default"})`);
+      closeSession(session);
+    }
+  }
+}
+
+function closeSession(session: Session): void {
+  sessions.delete(session.id);
+  session.server.close().catch(() => {});
+}
+
+/** Create a session for an initialize request. The transport assigns the ID while handling it. */
+export async function openSession(agentId: string | null, createServer: () => McpServer): Promise<StreamableHTTPServerTransport> {
+  const server = createServer();
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: createEventStore(sessionSettings().history),
+    onsessioninitialized: (id) => {
+      const now = Date.now();
+      sessions.set(id, { id, agentId, server, transport, createdAt: now, lastSeen: now, active: 0 });
+      log(`mcp session ${id} opened (agent=${agentId ?? "default"})`);
+    },
+    onsessionclosed: (id) => {
+      sessions.delete(id);
+      log(`mcp session ${id} closed (agent=${agentId ?? "default"})`);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId);
+  };
+  await server.connect(transport);
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(sweep, 60_000);
+    sweepTimer.unref();
+  }
+  return transport;
+}
+
+/**
+ * Look up a session for a request. Sessions belong to the agent that opened them —
+ * another agent's ID is treated as unknown so session IDs can't be probed.
+ * Marks the session active until `res` closes.
+ */
+export function useSession(id: string, agentId: string | null, res: { on(event: "close", fn: () => void): unknown }): StreamableHTTPServerTransport | null {
+  const session = sessions.get(id);
+  if (!session || session.agentId !== agentId) return null;
+  session.active++;
+  session.lastSeen = Date.now();
+  res.on("close", () => {
+    session.active--;
+    session.lastSeen = Date.now();
+  });
+  return session.transport;
+}
+
+export function getSessionStats(agentId?: string): SessionStats[] {
+  return [...sessions.values()]
+    .filter(s => agentId === undefined || s.agentId === agentId)
+    .map(s => ({
+      id: s.id,
+      agentId: s.agentId,
+      createdAt: new Date(s.createdAt).toISOString(),
+      lastSeen: new Date(s.lastSeen).toISOString(),
+      active: s.active,
+    }));
+}
+
+export function closeSessions(): void {
+  clearInterval(sweepTimer);
+  sweepTimer = undefined;
+  for (const session of [...sessions.values()]) closeSession(session);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { normalizeSubject, parseMessageIds, groupThread, stripQuoted } from "./thread.js";
+import type { ThreadCandidate } from "./thread.js";
+
+function candidate(uid: number, overrides: Partial<ThreadCandidate> = {}): ThreadCandidate {
+  return { mailbox: "INBOX", uid, subject: "Budget", date: `2026-03-0${uid}T10:00:00.000Z`, references: [], ...overrides };
+}
+
+describe("normalizeSubject", () => {
+  it("strips stacked reply/forward prefixes and list tags", () => {
+    expect(normalizeSubject("Re: Fwd: RE: [team] Budget  review")).toBe("budget review");
+    expect(normalizeSubject("AW: Budget")).toBe("budget");
+  });
+});
+
+describe("parseMessageIds", () => {
+  it("extracts ids from folded headers", () => {
+    expect(parseMessageIds("References: <a@x>\r\n <b@x>\r\n\t<c@x>\r\n")).toEqual(["<a@x>", "<b@x>", "<c@x>"]);
+    expect(parseMessageIds(undefined)).toEqual([]);
+  });
+});
+
+describe("groupThread", () => {
+  it("follows References/In-Reply-To links transitively across mailboxes", () => {
+    const root = candidate(1, { messageId: "<1@x>" });
+    const reply = candidate(2, { mailbox: "Sent", messageId: "<2@x>", inReplyTo: "<1@x>", references: ["<1@x>"] });
+    const reply2 = candidate(3, { messageId: "<3@x>", inReplyTo: "<2@x>", references: ["<1@x>", "<2@x>"] });
+    const other = candidate(4, { messageId: "<4@x>", inReplyTo: "<99@x>", references: ["<99@x>"] });
+    const members = groupThread(reply2, [root, reply, other]);
+    expect(members.map(m => m.uid).sort()).toEqual([1, 2, 3]);
+  });
+
+  it("falls back to subject only for messages without threading headers", () => {
+    const target = candidate(1, { messageId: "<1@x>" });
+    const bare = candidate(2, { subject: "RE: Budget", messageId: "<2@x>" });
+    const unrelated = candidate(3, { subject: "Re: Budget", messageId: "<3@x>", inReplyTo: "<77@x>" });
+    expect(groupThread(target, [bare, unrelated]).map(m => m.uid)).toEqual([1, 2]);
+  });
+
+  it("includes known members and links Sent messages through them", () => {
+    const target = candidate(1, { messageId: "<1@x>" });
+    const known = [candidate(5, { messageId: "<5@x>" })];
+    const sent = candidate(6, { mailbox: "Sent", messageId: "<6@x>", inReplyTo: "<5@x>" });
+    expect(groupThread(target, [sent], known).map(m => m.uid)).toEqual([1, 5, 6]);
+  });
+
+  it("dedupes the same message found in two folders", () => {
+    const target = candidate(1, { messageId: "<1@x>" });
+    const copy = candidate(9, { mailbox: "Archive", messageId: "<1@x>" });
+    expect(groupThread(target, [copy])).toHaveLength(1);
+  });
+});
+
+describe("stripQuoted", () => {
+  it("cuts at an attribution line", () => {
+    expect(stripQuoted("Sounds good.\n\nOn Mon, Mar 2, 2026 at 10:00 Alice <a@x> wrote:\n> earlier")).toBe("Sounds good.");
+  });
+
+  it("cuts trailing > blocks but keeps inline quotes", () => {
+    expect(stripQuoted("> your point\nI disagree.\n\n> rest\n> of it")).toBe("> your point\nI disagree.");
+  });
+
+  it("cuts Outlook-style headers only when followed by Sent:", () => {
+    expect(stripQuoted("Ok\nFrom: Alice\nSent: Monday\nSubject: x")).toBe("Ok");
+    expect(stripQuoted("From: the team\nThanks")).toBe("From: the team\nThanks");
+  });
+});
@@ -0,0 +1,114 @@
+// --- Thread assembly helpers (pure — no IMAP access) ---
+
+export interface ThreadCandidate {
+  mailbox: string;
+  uid: number;
+  subject: string;
+  date: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+}
+
+const SUBJECT_PREFIX_RE = /^\s*((re|fwd?|fw|aw|sv|vs)(\[\d+\])?\s*:\s*|\[[^\]]*\]\s*)/i;
+
+/** Base subject for grouping: strip Re:/Fwd:/[list] prefixes repeatedly, collapse whitespace. */
+export function normalizeSubject(subject: string): string {
+  let s = subject;
+  let prev;
+  do {
+    prev = s;
+    s = s.replace(SUBJECT_PREFIX_RE, "");
+  } while (s !== prev);
+  return s.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/** Extract Message-IDs from a raw References / In-Reply-To header block. */
+export function parseMessageIds(raw: string | undefined): string[] {
+  if (!raw) return [];
+  return raw.replace(/\r?\n[ \t]+/g, " ").match(/<[^<>\s]+>/g) ?? [];
+}
+
+/**
+ * Group candidates into the target's conversation: first by Message-ID links
+ * (References / In-Reply-To), then by base subject for messages that carry no
+ * threading headers at all (clients that drop them). `known` members (e.g. from
+ * a server-side THREAD) are included unconditionally and seed the links.
+ */
+export function groupThread(target: ThreadCandidate, candidates: ThreadCandidate[], known: ThreadCandidate[] = []): ThreadCandidate[] {
+  const linksOf = (c: ThreadCandidate) => [
+    ...(c.messageId ? [c.messageId] : []),
+    ...(c.inReplyTo ? [c.inReplyTo] : []),
+    ...c.references,
+  ];
+
+  const members = new Map<string, ThreadCandidate>();
+  const ids = new Set<string>();
+  for (const c of [target, ...known]) {
+    members.set(`${c.mailbox}:${c.uid}`, c);
+    linksOf(c).forEach(id => ids.add(id));
+  }
+  const pending = candidates.filter(c => !members.has(`${c.mailbox}:${c.uid}`));
+
+  // Grow the id set until no more candidates link in
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const links = linksOf(pending[i]);
+      if (links.some(id => ids.has(id))) {
+        links.forEach(id => ids.add(id));
+        members.set(`${pending[i].mailbox}:${pending[i].uid}`, pending[i]);
+        pending.splice(i, 1);
+        grew = true;
+      }
+    }
+  }
+
+  const base = normalizeSubject(target.subject);
+  if (base) {
+    for (const c of pending) {
+      if (!c.inReplyTo && !c.references.length && normalizeSubject(c.subject) === base) {
+        members.set(`${c.mailbox}:${c.uid}`, c);
+      }
+    }
+  }
+
+  // Same message in two folders (e.g. copied) — keep the first occurrence
+  const seenIds = new Set<string>();
+  return [...members.values()].filter(m => {
+    if (!m.messageId) return true;
+    if (seenIds.has(m.messageId)) return false;
+    seenIds.add(m.messageId);
+    return true;
+  });
+}
+
+const QUOTE_HEADER_RES = [
+  /^On .+(wrote|writes):\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^From: .+$/,
+];
+
+/** Drop quoted history from a reply body: everything from the first attribution/quote block on. */
+export function stripQuoted(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let cut = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // Outlook-style "From: ..." only counts when followed by a Sent:/Date: line
+    if (/^From: /.test(line) && !/^(Sent|Date): /i.test(lines[i + 1]?.trim() ?? "")) continue;
+    if (QUOTE_HEADER_RES.some(re => re.test(line))) {
+      cut = i;
+      break;
+    }
+    // A run of ">" lines that continues to the end is quoted history
+    if (line.startsWith(">") && lines.slice(i).every(l => !l.trim() || l.trim().startsWith(">"))) {
+      cut = i;
+      break;
+    }
+  }
+  return lines.slice(0, cut).join("\n").trim();
+}
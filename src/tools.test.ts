@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTool } from "./tools.js";
+import { queryAudit } from "./audit.js";
+import { runWithAgent } from "./config.js";
+import type { ToolScopes } from "./scopes.js";
+
+let testDir: string;
+
+const ok = async () => ({ content: [{ type: "text" as const, text: "{}" }] });
+const scopes: ToolScopes = { tools: [], denyTools: ["send_email"], readMailboxes: ["INBOX"], writeMailboxes: ["Archive"], ungatedReads: true };
+
+describe("registerTool", () => {
+  beforeEach(() => {
+    testDir = join(tmpdir(), `fagents-tools-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    process.env.AUDIT_LOG = join(testDir, "audit.log");
+  });
+
+  afterEach(() => {
+    delete process.env.AUDIT_LOG;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("registers only permitted tools and rejects out-of-scope mailbox arguments", async () => {
+    const server = new McpServer({ name: "test", version: "0" });
+
+    expect(registerTool(server, "send_email", "Send", {}, ok, scopes)).toBeUndefined();
+    const move = registerTool(server, "move_emails", "Move", { uids: z.array(z.number()), mailbox: z.string().optional(), destination: z.string() }, ok, scopes)!;
+    const list = registerTool(server, "list_emails", "List", { mailbox: z.string().optional() }, ok, scopes)!;
+    const call = (tool: typeof move, args: Record<string, unknown>) =>
+      (tool.handler as unknown as (a: Record<string, unknown>) => Promise<{ content: Array<{ text: string }> }>)(args).then(r => JSON.parse(r.content[0].text));
+
+    expect(await call(list, {})).toEqual({});
+    expect(await call(list, { mailbox: "Finance" })).toEqual({
+      error: 'Mailbox "Finance" is outside this agent\'s read scope',
+      code: "scope_violation",
+      mailbox: "Finance",
+      access: "read",
+    });
+    expect(await call(move, { uids: [1], mailbox: "Archive", destination: "Archive" })).toEqual({});
+    expect(await call(move, { uids: [1], destination: "Archive" })).toMatchObject({ code: "scope_violation", mailbox: "INBOX", access: "write" });
+  });
+
+  it("audits calls rejected for scope", async () => {
+    const server = new McpServer({ name: "test", version: "0" });
+    const list = registerTool(server, "list_emails", "List", { mailbox: z.string().optional() }, ok, scopes)!;
+    const handler = list.handler as unknown as (a: Record<string, unknown>) => Promise<unknown>;
+
+    await runWithAgent("coo", () => handler({ mailbox: "Finance" }));
+    expect(await queryAudit()).toEqual([
+      expect.objectContaining({ kind: "tool", name: "list_emails", agentId: "coo", status: "error", error: 'Mailbox "Finance" is outside this agent\'s read scope', args: { mailbox: "Finance" } }),
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import type {
+  McpServer, ResourceTemplate, RegisteredTool, RegisteredResourceTemplate, RegisteredPrompt, ToolCallback, PromptCallback, ReadResourceTemplateCallback, ResourceMetadata,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { auditToolHandler } from "./audit.js";
+import { getToolScopes, toolAllowed, contentAllowed, scopeToolHandler, ScopeError } from "./scopes.js";
+import type { ToolScopes } from "./scopes.js";
+
+// --- MCP registration: tools, resources and prompts follow the agent's scopes; tool calls are audited ---
+
+/**
+ * Register a tool for the calling agent. Tools outside its scopes are not registered at all
+ * (returns undefined). Each call is audited, then its mailbox arguments are checked, so calls
+ * rejected for scope are audited too. Scopes are read when registering, so call this inside
+ * the agent's context (runWithAgent).
+ */
+export function registerTool<Args extends ZodRawShapeCompat>(
+  server: McpServer,
+  name: string,
+  description: string,
+  paramsSchema: Args,
+  handler: ToolCallback<Args>,
+  scopes: ToolScopes = getToolScopes(),
+): RegisteredTool | undefined {
+  if (!toolAllowed(name, scopes)) return undefined;
+  return server.tool(name, description, paramsSchema, auditToolHandler(name, scopeToolHandler(name, handler, scopes)));
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// A ScopeError from a resource or prompt becomes a JSON-RPC error whose data is what a tool
+// returns for the same denial: { error, code: "scope_violation", mailbox, access }
+function scopeDenials<H extends (...args: any[]) => any>(handler: H): H {
+  const wrapped = async (...args: any[]) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      if (error instanceof ScopeError) throw new McpError(ErrorCode.InvalidParams, error.message, error.toJSON());
+      throw error;
+    }
+  };
+  return wrapped as H;
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+/** Register a resource template, unless the tool that reads the same content is out of scope (see registerTool). */
+export function registerResource(
+  server: McpServer,
+  name: string,
+  template: ResourceTemplate,
+  metadata: ResourceMetadata,
+  read: ReadResourceTemplateCallback,
+  scopes: ToolScopes = getToolScopes(),
+): RegisteredResourceTemplate | undefined {
+  if (!contentAllowed(name, scopes)) return undefined;
+  return server.registerResource(name, template, metadata, scopeDenials(read));
+}
+
+/** Register a prompt, unless the tool that reads the same content is out of scope (see registerTool). */
+export function registerPrompt<Args extends ZodRawShapeCompat>(
+  server: McpServer,
+  name: string,
+  description: string,
+  argsSchema: Args,
+  handler: PromptCallback<Args>,
+  scopes: ToolScopes = getToolScopes(),
+): RegisteredPrompt | undefined {
+  if (!contentAllowed(name, scopes)) return undefined;
+  return server.prompt(name, description, argsSchema, scopeDenials(handler));
+}
@@ -8,6 +8,15 @@ export interface AgentConfig {
 export interface AgentsConfig {
   agents: Record<string, AgentConfig>;
   shared?: Record<string, string>;
+  /** Hashed API keys per agent, from keys.env */
+  keys?: Record<string, ApiKeyRecord[]>;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  hash: string;
+  /** ISO timestamp after which the key is rejected */
+  expiresAt?: string;
 }
 
 // --- Email types ---
@@ -34,6 +43,9 @@ export interface EmailMessage {
   body: string;
   html?: string;
   attachments?: EmailAttachment[];
+  inReplyTo?: string;
+  references?: string[];
+  messageId?: string;
 }
 
 export interface EmailSendResult {
@@ -57,6 +69,9 @@ export interface MailboxInfo {
   name: string;
   flags: string[];
   specialUse?: string;
+  subscribed: boolean;
+  messages?: number;
+  unseen?: number;
 }
 
 export interface EmailEnvelope {
@@ -67,6 +82,7 @@ export interface EmailEnvelope {
   date: string;
   flags: string[];
   messageId?: string;
+  inReplyTo?: string;
 }
 
 export interface EmailFull {
@@ -74,10 +90,13 @@ export interface EmailFull {
   from: string;
   to: string;
   cc?: string;
+  replyTo?: string;
   subject: string;
   date: string;
   flags: string[];
   messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
   text?: string;
   html?: string;
   attachments: AttachmentInfo[];
@@ -90,6 +109,34 @@ export interface AttachmentInfo {
   size?: number;
 }
 
+export interface ThreadMessage {
+  mailbox: string;
+  uid: number;
+  from: string;
+  to: string;
+  date: string;
+  subject: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  /** Body text with quoted reply history removed */
+  text: string;
+}
+
+export interface ThreadResult {
+  /** "thread" when the server's THREAD=REFERENCES extension grouped the source mailbox, else "local" */
+  method: "thread" | "local";
+  messages: ThreadMessage[];
+}
+
+export interface MoveResult {
+  source: string;
+  destination: string | null;
+  /** Source UID → destination UID, when the server supports UIDPLUS */
+  uidMap?: Record<number, number>;
+  expunged?: boolean;
+}
+
 export interface SearchCriteria {
   from?: string;
   to?: string;
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "events";
+
+// Fake ImapFlow holding one mailbox; tests deliver mail and raise IDLE events on it
+interface FakeMessage { uid: number; from: string }
+const created: FakeClient[] = [];
+let messages: FakeMessage[] = [];
+let uidValidity = 1n;
+
+class FakeClient extends EventEmitter {
+  usable = false;
+  constructor(public options: unknown) {
+    super();
+    created.push(this);
+  }
+  async connect() { this.usable = true; }
+  async logout() { this.usable = false; this.emit("close"); }
+  close() { this.usable = false; this.emit("close"); }
+  async mailboxOpen(path: string) { return { path, uidValidity }; }
+  async search(query: { uid?: string }) {
+    const min = query.uid ? parseInt(query.uid, 10) : 1;
+    return messages.map(m => m.uid).filter(u => u >= min);
+  }
+  async *fetch(uids: number[]) {
+    for (const m of messages.filter(m => uids.includes(m.uid))) {
+      yield { uid: m.uid, envelope: { from: [{ address: m.from }], date: new Date("2026-03-04T10:00:00Z") } };
+    }
+  }
+}
+
+vi.mock("imapflow", () => ({ ImapFlow: FakeClient }));
+
+const config = { host: "imap.biz.com", port: 993, user: "coo@biz.com", pass: "secret" };
+
+function deliver(uid: number, from = `sender${uid}@example.com`) {
+  messages.push({ uid, from });
+  created[created.length - 1].emit("exists", { path: "INBOX", count: messages.length, prevCount: messages.length - 1 });
+}
+
+// Let queued fetches run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("watch", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    created.length = 0;
+    messages = [{ uid: 1, from: "a@example.com" }, { uid: 2, from: "b@example.com" }];
+    uidValidity = 1n;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("pushes new mail that arrives after subscribing, not existing mail", async () => {
+    const watch = await import("./watch.js");
+    const events: unknown[] = [];
+    const unsubscribe = await watch.subscribe("coo", config, "INBOX", e => events.push(e));
+    expect(events).toEqual([]);
+
+    deliver(3, "carol@example.com");
+    await settle();
+    expect(events).toEqual([{ type: "new", mailbox: "INBOX", uid: 3, from: "carol@example.com", date: "2026-03-04T10:00:00.000Z" }]);
+    unsubscribe();
+  });
+
+  it("maps expunge and flag sequence numbers to UIDs", async () => {
+    const watch = await import("./watch.js");
+    const events: unknown[] = [];
+    const unsubscribe = await watch.subscribe("coo", config, "INBOX", e => events.push(e));
+    const client = created[0];
+
+    client.emit("flags", { path: "INBOX", seq: 2, flags: new Set(["\\Seen"]) });
+    client.emit("expunge", { path: "INBOX", seq: 1, vanished: false });
+    // After expunging seq 1, UID 2 is now seq 1
+    client.emit("flags", { path: "INBOX", seq: 1, flags: new Set(["\\Flagged"]) });
+    expect(events).toEqual([
+      { type: "flags", mailbox: "INBOX", uid: 2, flags: ["\\Seen"] },
+      { type: "expunge", mailbox: "INBOX", uid: 1 },
+      { type: "flags", mailbox: "INBOX", uid: 2, flags: ["\\Flagged"] },
+    ]);
+    unsubscribe();
+  });
+
+  it("shares one connection per agent mailbox and logs out after the last subscriber", async () => {
+    const watch = await import("./watch.js");
+    const a: unknown[] = [];
+    const b: unknown[] = [];
+    const unsubA = await watch.subscribe("coo", config, "INBOX", e => a.push(e));
+    const unsubB = await watch.subscribe("coo", config, "INBOX", e => b.push(e));
+    expect(created).toHaveLength(1);
+    expect(watch.getWatcherStats()).toMatchObject([{ agentId: "coo", mailbox: "INBOX", subscribers: 2, lastUid: 2 }]);
+
+    deliver(3);
+    await settle();
+    expect(a).toHaveLength(1);
+    expect(b).toHaveLength(1);
+
+    unsubA();
+    expect(created[0].usable).toBe(true);
+    unsubB();
+    expect(created[0].usable).toBe(false);
+    expect(watch.getWatcherStats()).toEqual([]);
+  });
+
+  it("reconnects after a drop and backfills mail that arrived meanwhile", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const watch = await import("./watch.js");
+    const events: Array<{ uid: number }> = [];
+    const unsubscribe = await watch.subscribe("coo", config, "INBOX", e => events.push(e as { uid: number }));
+
+    created[0].close();
+    messages.push({ uid: 3, from: "c@example.com" }, { uid: 4, from: "d@example.com" });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(created).toHaveLength(2);
+    expect(events.map(e => e.uid)).toEqual([3, 4]);
+    expect(watch.getWatcherStats()[0]).toMatchObject({ connected: true, reconnects: 1, lastUid: 4 });
+    unsubscribe();
+  });
+
+  it("restarts from the mailbox end when UIDVALIDITY changes", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const watch = await import("./watch.js");
+    const events: unknown[] = [];
+    const unsubscribe = await watch.subscribe("coo", config, "INBOX", e => events.push(e));
+
+    created[0].close();
+    uidValidity = 2n;
+    messages = [{ uid: 1, from: "x@example.com" }, { uid: 2, from: "y@example.com" }, { uid: 3, from: "z@example.com" }];
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(events).toEqual([]);
+    expect(watch.getWatcherStats()[0].lastUid).toBe(3);
+    unsubscribe();
+  });
+});
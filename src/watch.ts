@@ -0,0 +1,224 @@
+import type { ImapFlow } from "imapflow";
+import { createHash } from "crypto";
+import { createImapClient } from "./imap-pool.js";
+import { fetchNewEntries } from "./imap.js";
+import type { NewEmailEntry } from "./imap.js";
+import type { ImapConfig } from "./types.js";
+
+// --- Mailbox watchers: one IDLE connection per agent + mailbox, shared by all subscribers ---
+// A watcher is opened on the first subscribe and logged out when the last subscriber leaves.
+// Dropped connections are reopened with backoff and backfilled from the last UID seen.
+
+export type MailEvent =
+  | ({ type: "new"; mailbox: string } & NewEmailEntry)
+  | { type: "flags"; mailbox: string; uid: number; flags: string[] }
+  | { type: "expunge"; mailbox: string; uid: number };
+
+export type MailListener = (event: MailEvent) => void;
+
+export interface WatcherStats {
+  agentId: string;
+  mailbox: string;
+  connected: boolean;
+  subscribers: number;
+  lastUid: number;
+  reconnects: number;
+}
+
+interface Watcher {
+  agentId: string;
+  mailbox: string;
+  config: ImapConfig;
+  client: ImapFlow | null;
+  listeners: Set<MailListener>;
+  /** Mailbox UIDs in sequence order, to resolve expunge/flag events that only carry a sequence number */
+  uids: number[];
+  uidValidity?: bigint;
+  lastUid: number;
+  /** Serializes fetches triggered by EXISTS so events go out in UID order */
+  syncing: Promise<void>;
+  /** Initial connect; later subscribers wait on it */
+  ready: Promise<void>;
+  retryTimer?: NodeJS.Timeout;
+  attempts: number;
+  reconnects: number;
+  stopped: boolean;
+}
+
+const MAX_BACKOFF_MS = 60_000;
+const watchers = new Map<string, Watcher>();
+
+const log = (msg: string) => console.log(`[${new Date().toISOString()}] ${msg}`);
+
+function watcherKey(agentId: string, mailbox: string, config: ImapConfig): string {
+  const passHash = createHash("sha256").update(config.pass).digest("hex").slice(0, 12);
+  return `${agentId}|${config.user}@${config.host}:${config.port}|${mailbox}|${passHash}`;
+}
+
+function emit(watcher: Watcher, event: MailEvent): void {
+  for (const listener of watcher.listeners) {
+    try {
+      listener(event);
+    } catch (e) {
+      log(`watch ${watcher.agentId}/${watcher.mailbox}: listener error: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+}
+
+// Fetch and announce everything above lastUid. Runs after EXISTS and after every (re)connect.
+function syncNew(watcher: Watcher, client: ImapFlow): Promise<void> {
+  watcher.syncing = watcher.syncing.then(async () => {
+    if (watcher.client !== client) return;
+    const entries = await fetchNewEntries(client, watcher.lastUid);
+    for (const entry of entries.sort((a, b) => a.uid - b.uid)) {
+      if (entry.uid <= watcher.lastUid) continue;
+      watcher.lastUid = entry.uid;
+      watcher.uids.push(entry.uid);
+      emit(watcher, { type: "new", mailbox: watcher.mailbox, ...entry });
+    }
+  }).catch(e => {
+    log(`watch ${watcher.agentId}/${watcher.mailbox}: fetch failed: ${e instanceof Error ? e.message : e}`);
+  });
+  return watcher.syncing;
+}
+
+function scheduleReconnect(watcher: Watcher): void {
+  if (watcher.stopped || watcher.retryTimer) return;
+  const delay = Math.min(1000 * 2 ** watcher.attempts, MAX_BACKOFF_MS);
+  watcher.attempts++;
+  watcher.retryTimer = setTimeout(() => {
+    watcher.retryTimer = undefined;
+    watcher.reconnects++;
+    open(watcher).catch(() => scheduleReconnect(watcher));
+  }, delay);
+  watcher.retryTimer.unref();
+}
+
+async function open(watcher: Watcher): Promise<void> {
+  const client = createImapClient(watcher.config);
+  client.on("error", (e: Error) => {
+    log(`watch ${watcher.agentId}/${watcher.mailbox}: ${e.message}`);
+  });
+  client.on("close", () => {
+    if (watcher.client !== client) return;
+    watcher.client = null;
+    log(`watch ${watcher.agentId}/${watcher.mailbox}: connection closed`);
+    scheduleReconnect(watcher);
+  });
+  client.on("exists", () => {
+    syncNew(watcher, client);
+  });
+  client.on("expunge", (ev) => {
+    // UID given directly with QRESYNC/VANISHED; otherwise map the sequence number
+    const index = ev.uid !== undefined ? watcher.uids.indexOf(ev.uid) : (ev.seq ?? 0) - 1;
+    const uid = ev.uid ?? watcher.uids[index];
+    if (index >= 0 && index < watcher.uids.length) watcher.uids.splice(index, 1);
+    if (uid !== undefined) emit(watcher, { type: "expunge", mailbox: watcher.mailbox, uid });
+  });
+  client.on("flags", (ev) => {
+    const uid = ev.uid ?? watcher.uids[ev.seq - 1];
+    if (uid !== undefined) emit(watcher, { type: "flags", mailbox: watcher.mailbox, uid, flags: [...ev.flags].map(String) });
+  });
+
+  let mailbox: Awaited<ReturnType<ImapFlow["mailboxOpen"]>>;
+  let uids: number[];
+  try {
+    await client.connect();
+    // Keep the mailbox selected — imapflow enters IDLE on its own between commands
+    mailbox = await client.mailboxOpen(watcher.mailbox);
+    /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+    const all: any = await client.search({ all: true }, { uid: true });
+    uids = Array.isArray(all) ? [...all].sort((a, b) => a - b) : [];
+  } catch (error) {
+    client.close();
+    throw error;
+  }
+  if (watcher.stopped) {
+    await client.logout().catch(() => client.close());
+    return;
+  }
+
+  if (watcher.uidValidity === undefined) {
+    // First open: only messages arriving from now on are live events
+    watcher.lastUid = uids[uids.length - 1] ?? 0;
+  } else if (mailbox.uidValidity !== watcher.uidValidity) {
+    // UIDs were renumbered — old lastUid means nothing, so restart from the current end
+    log(`watch ${watcher.agentId}/${watcher.mailbox}: UIDVALIDITY changed, resetting`);
+    watcher.lastUid = uids[uids.length - 1] ?? 0;
+  }
+  watcher.uidValidity = mailbox.uidValidity;
+  watcher.uids = uids.filter(u => u <= watcher.lastUid);
+  watcher.client = client;
+  watcher.attempts = 0;
+  // Backfill anything that arrived while disconnected (no-op on first open)
+  await syncNew(watcher, client);
+}
+
+function stop(key: string, watcher: Watcher): void {
+  watcher.stopped = true;
+  clearTimeout(watcher.retryTimer);
+  watchers.delete(key);
+  const client = watcher.client;
+  watcher.client = null;
+  client?.logout().catch(() => client.close());
+}
+
+/**
+ * Subscribe to live events for a mailbox, starting from messages that arrive after
+ * the watcher first opened. Callers backfill older UIDs themselves (see checkNewEmail).
+ * Returns an unsubscribe function.
+ */
+export async function subscribe(agentId: string, config: ImapConfig, mailbox: string, listener: MailListener): Promise<() => void> {
+  const key = watcherKey(agentId, mailbox, config);
+  let watcher = watchers.get(key);
+  if (!watcher) {
+    watcher = {
+      agentId, mailbox, config,
+      client: null,
+      listeners: new Set(),
+      uids: [],
+      lastUid: 0,
+      syncing: Promise.resolve(),
+      ready: Promise.resolve(),
+      attempts: 0,
+      reconnects: 0,
+      stopped: false,
+    };
+    const created = watcher;
+    created.ready = open(created).catch(error => {
+      if (watchers.get(key) === created) stop(key, created);
+      throw error;
+    });
+    watchers.set(key, created);
+  }
+  const w = watcher;
+  w.listeners.add(listener);
+  try {
+    await w.ready;
+  } catch (error) {
+    w.listeners.delete(listener);
+    throw error;
+  }
+
+  return () => {
+    w.listeners.delete(listener);
+    if (!w.listeners.size && watchers.get(key) === w) stop(key, w);
+  };
+}
+
+export function getWatcherStats(agentId?: string): WatcherStats[] {
+  return [...watchers.values()]
+    .filter(w => !agentId || w.agentId === agentId)
+    .map(w => ({
+      agentId: w.agentId,
+      mailbox: w.mailbox,
+      connected: w.client !== null,
+      subscribers: w.listeners.size,
+      lastUid: w.lastUid,
+      reconnects: w.reconnects,
+    }));
+}
+
+export function closeWatchers(): void {
+  for (const [key, watcher] of watchers) stop(key, watcher);
+}
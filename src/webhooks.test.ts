@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { randomUUID } from "crypto";
+import { createServer } from "http";
+import type { Server, IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+import * as webhooks from "./webhooks.js";
+
+// INBOX watches started through watch.subscribe, and whether they were unsubscribed since
+const subscriptions = vi.hoisted(() => [] as Array<{ agentId: string; pass: string; active: boolean }>);
+vi.mock("./watch.js", () => ({
+  subscribe: async (agentId: string, config: { pass: string }) => {
+    const sub = { agentId, pass: config.pass, active: true };
+    subscriptions.push(sub);
+    return () => { sub.active = false; };
+  },
+}));
+
+let testDir: string;
+let server: Server;
+let received: Array<{ headers: IncomingHttpHeaders; body: string }>;
+// Status codes the receiver answers with, in order (then 200)
+let responses: number[];
+
+// A delivery record as a previous run of the server left it
+function storedDelivery(fields: Partial<webhooks.WebhookDelivery>): webhooks.WebhookDelivery {
+  const id = randomUUID();
+  const createdAt = fields.createdAt ?? new Date().toISOString();
+  const delivery: webhooks.WebhookDelivery = {
+    id,
+    agentId: null,
+    event: "email.sent",
+    url: process.env.WEBHOOK_URLS!,
+    payload: { id: randomUUID(), event: "email.sent", agentId: null, timestamp: createdAt, data: {} },
+    status: "pending",
+    attempts: 0,
+    createdAt,
+    ...fields,
+  };
+  writeFileSync(join(testDir, `${id}.json`), JSON.stringify(delivery));
+  return delivery;
+}
+
+function waitFor(check: () => boolean, ms = 2000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (check()) resolve();
+      else if (Date.now() - start > ms) reject(new Error("timed out"));
+      else setTimeout(tick, 5);
+    };
+    tick();
+  });
+}
+
+describe("webhooks", () => {
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `fagents-webhooks-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    received = [];
+    responses = [];
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => { body += chunk; });
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    process.env.WEBHOOK_DIR = testDir;
+    process.env.WEBHOOK_URLS = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    process.env.WEBHOOK_SECRET = "shh";
+    process.env.WEBHOOK_RETRY_MS = "1";
+  });
+
+  afterEach(async () => {
+    for (const key of ["AGENTS_DIR", "WEBHOOK_DIR", "WEBHOOK_RETENTION_MS", "WEBHOOK_URLS", "WEBHOOK_SECRET", "WEBHOOK_RETRY_MS", "WEBHOOK_MAX_ATTEMPTS", "WEBHOOK_EVENTS"]) {
+      delete process.env[key];
+    }
+    await new Promise(resolve => server.close(resolve));
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("posts signed JSON and records the delivery", async () => {
+    const [delivery] = webhooks.emitWebhook("email.sent", { to: "alice@example.com", messageId: "<m@x>" });
+    await waitFor(() => webhooks.getDelivery(delivery.id)?.status === "delivered");
+
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toMatchObject({ event: "email.sent", agentId: null, data: { messageId: "<m@x>" } });
+    expect(headers["x-fagents-event"]).toBe("email.sent");
+    expect(headers["x-fagents-delivery"]).toBe(delivery.id);
+    expect(headers["x-fagents-signature"]).toBe(webhooks.signPayload("shh", headers["x-fagents-timestamp"] as string, body));
+    expect(webhooks.getDelivery(delivery.id)).toMatchObject({ attempts: 1, httpStatus: 200 });
+  });
+
+  it("retries with backoff, then records the failure for replay", async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = "3";
+    responses = [500, 500, 503];
+    const [delivery] = webhooks.emitWebhook("email.send_failed", { error: "SMTP down" });
+    await waitFor(() => webhooks.getDelivery(delivery.id)?.status === "failed");
+
+    expect(received).toHaveLength(3);
+    expect(webhooks.listDeliveries({ status: "failed" })).toMatchObject([{ id: delivery.id, attempts: 3, httpStatus: 503, error: "HTTP 503" }]);
+
+    const replayed = await webhooks.replayDelivery(delivery.id);
+    expect(replayed).toMatchObject({ status: "delivered", attempts: 4 });
+    // Same payload id, so receivers can de-duplicate
+    expect(JSON.parse(received[3].body).id).toBe(JSON.parse(received[0].body).id);
+    await expect(webhooks.replayDelivery(delivery.id)).rejects.toThrow(/already delivered/);
+  });
+
+  it("resumes or replays deliveries left pending by a restart, but not ones still retrying", async () => {
+    const interrupted = storedDelivery({ attempts: 1, error: "HTTP 500" });
+    expect(webhooks.resumeDeliveries()).toBe(1);
+    await waitFor(() => webhooks.getDelivery(interrupted.id)?.status === "delivered");
+    expect(webhooks.getDelivery(interrupted.id)).toMatchObject({ attempts: 2 });
+
+    const stale = storedDelivery({ attempts: 1 });
+    expect(await webhooks.replayDelivery(stale.id)).toMatchObject({ status: "delivered", attempts: 2 });
+
+    process.env.WEBHOOK_RETRY_MS = "100";
+    responses = [500];
+    const [retrying] = webhooks.emitWebhook("email.sent", { messageId: "<m@x>" });
+    await waitFor(() => received.length === 3);
+    await expect(webhooks.replayDelivery(retrying.id)).rejects.toThrow(/already pending/);
+    expect(webhooks.resumeDeliveries()).toBe(0);
+    await waitFor(() => webhooks.getDelivery(retrying.id)?.status === "delivered");
+  });
+
+  it("keeps a delivery delivered when its record can't be saved", async () => {
+    const logged = vi.spyOn(console, "log").mockImplementation(() => {});
+    const [delivery] = webhooks.emitWebhook("email.sent", { messageId: "<m@x>" });
+    mkdirSync(join(testDir, `${delivery.id}.json.tmp`)); // the write after the POST fails
+    await waitFor(() => webhooks.getDelivery(delivery.id)?.status === "delivered");
+
+    expect(received).toHaveLength(1);
+    expect(logged).toHaveBeenCalledWith(expect.stringContaining(`failed to save delivery ${delivery.id} (delivered)`));
+    await expect(webhooks.replayDelivery(delivery.id)).rejects.toThrow(/already delivered/);
+    expect(webhooks.resumeDeliveries()).toBe(0);
+    expect(received).toHaveLength(1);
+    logged.mockRestore();
+  });
+
+  it("prunes finished deliveries past WEBHOOK_RETENTION_MS and lists newest first", () => {
+    process.env.WEBHOOK_RETENTION_MS = "60000";
+    const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+    const oldDelivered = storedDelivery({ status: "delivered", createdAt: ago(130_000) });
+    const oldPending = storedDelivery({ status: "pending", createdAt: ago(120_000) });
+    const recentFailed = storedDelivery({ status: "failed", createdAt: ago(1000) });
+
+    expect(webhooks.listDeliveries().map(d => d.id)).toEqual([recentFailed.id, oldPending.id, oldDelivered.id]);
+    expect(webhooks.pruneDeliveries()).toBe(1);
+    expect(webhooks.getDelivery(oldDelivered.id)).toBeNull();
+    expect(webhooks.listDeliveries({ limit: 1 }).map(d => d.id)).toEqual([recentFailed.id]);
+  });
+
+  it("only sends subscribed events", () => {
+    process.env.WEBHOOK_EVENTS = "email.received";
+    expect(webhooks.emitWebhook("email.gated", { uid: 1 })).toEqual([]);
+    delete process.env.WEBHOOK_URLS;
+    expect(webhooks.emitWebhook("email.received", { uid: 1 })).toEqual([]);
+    expect(webhooks.listDeliveries()).toEqual([]);
+  });
+
+  it("fails deliveries without a signing secret", async () => {
+    delete process.env.WEBHOOK_SECRET;
+    process.env.WEBHOOK_MAX_ATTEMPTS = "1";
+    const [delivery] = webhooks.emitWebhook("email.gated", { uid: 1 });
+    await waitFor(() => webhooks.getDelivery(delivery.id)?.status === "failed");
+    expect(webhooks.getDelivery(delivery.id)?.error).toBe("WEBHOOK_SECRET is not set");
+    expect(received).toEqual([]);
+  });
+
+  it("stops, restarts and starts INBOX watchers as agents are reloaded", async () => {
+    const hook = process.env.WEBHOOK_URLS;
+    delete process.env.WEBHOOK_URLS;
+    const agentsDir = join(testDir, "agents");
+    process.env.AGENTS_DIR = agentsDir;
+    const writeAgent = (agent: string, pass: string, withHook: boolean) => {
+      mkdirSync(join(agentsDir, agent), { recursive: true });
+      writeFileSync(join(agentsDir, agent, "email.env"), `MCP_API_KEY=key-${agent}\nIMAP_HOST=imap.biz.com\nIMAP_USER=${agent}@biz.com\nIMAP_PASS=${pass}`);
+      if (withHook) writeFileSync(join(agentsDir, agent, "webhooks.env"), `WEBHOOK_URLS=${hook}`);
+      else rmSync(join(agentsDir, agent, "webhooks.env"), { force: true });
+    };
+    writeAgent("coo", "one", true);
+    writeAgent("ops", "one", true);
+    writeAgent("dev", "one", false);
+
+    vi.resetModules();
+    const fresh = await import("./webhooks.js");
+    const { reloadAgentsConfig } = await import("./config.js");
+    subscriptions.length = 0;
+    const active = () => subscriptions.filter(s => s.active).map(s => `${s.agentId}:${s.pass}`).sort();
+
+    await fresh.startMailWebhooks();
+    expect(active()).toEqual(["coo:one", "ops:one"]);
+
+    writeAgent("coo", "rotated", true);
+    writeAgent("dev", "one", true);
+    writeAgent("cfo", "one", true);
+    rmSync(join(agentsDir, "ops"), { recursive: true });
+    const result = reloadAgentsConfig();
+    expect(result).toMatchObject({ added: ["cfo"], removed: ["ops"], changed: ["coo", "dev"] });
+    await fresh.syncMailWebhooks(result);
+    expect(active()).toEqual(["cfo:one", "coo:rotated", "dev:one"]);
+
+    writeAgent("dev", "one", false);
+    await fresh.syncMailWebhooks(reloadAgentsConfig());
+    expect(active()).toEqual(["cfo:one", "coo:rotated"]);
+  });
+});
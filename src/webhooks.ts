@@ -0,0 +1,353 @@
+import { readFileSync, writeFileSync, readdirSync, mkdirSync, renameSync, existsSync, rmSync } from "fs";
+import { resolve, join } from "path";
+import { createHmac, randomUUID } from "crypto";
+import { getEnv, getCurrentAgentId, runWithAgent, hasAgents, listAgentIds, getImapConfig } from "./config.js";
+import * as watch from "./watch.js";
+
+// --- Outbound webhooks: signed JSON POSTs to per-agent URLs ---
+// Per-agent keys come from .agents/<id>/webhooks.env (or email.env / process env):
+//   WEBHOOK_URLS          comma-separated endpoint URLs
+//   WEBHOOK_SECRET        HMAC-SHA256 signing key (required when URLs are set)
+//   WEBHOOK_EVENTS        comma-separated event filter (default: all events)
+//   WEBHOOK_MAX_ATTEMPTS  delivery attempts before giving up (default 5)
+//   WEBHOOK_RETRY_MS      first retry delay, doubled per attempt (default 1000)
+// Every delivery is persisted one JSON file per item so failures can be listed and replayed.
+// Finished deliveries are pruned after WEBHOOK_RETENTION_MS (global, default 7 days).
+
+export const WEBHOOK_EVENTS = ["email.received", "email.sent", "email.send_failed", "email.gated"] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  agentId: string | null;
+  event: WebhookEvent;
+  url: string;
+  payload: { id: string; event: WebhookEvent; agentId: string | null; timestamp: string; data: Record<string, unknown> };
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  deliveredAt?: string;
+  httpStatus?: number;
+  error?: string;
+}
+
+const TIMEOUT_MS = 10_000;
+const WATCH_RETRY_MS = 60_000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Deliveries with a send/retry loop in this process; any other "pending" one was cut off by a restart
+const inFlight = new Set<string>();
+// Latest state of deliveries whose record couldn't be written (disk full, permissions), so a
+// delivered one isn't seen as pending or failed — and sent again — until a write succeeds.
+// Keyed by record path.
+const unsaved = new Map<string, WebhookDelivery>();
+let pruneTimer: NodeJS.Timeout | undefined;
+
+const log = (msg: string) => console.log(`[${new Date().toISOString()}] ${msg}`);
+
+function webhookDir(): string {
+  return process.env.WEBHOOK_DIR || resolve(process.cwd(), "data/webhooks");
+}
+
+function deliveryPath(id: string): string {
+  // ids are UUIDs we generate — reject anything else so :id can't escape the directory
+  if (!/^[0-9a-f-]{36}$/.test(id)) throw new Error(`Invalid delivery id: ${id}`);
+  return join(webhookDir(), `${id}.json`);
+}
+
+function writeDelivery(delivery: WebhookDelivery): void {
+  mkdirSync(webhookDir(), { recursive: true, mode: 0o700 });
+  const path = deliveryPath(delivery.id);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(delivery, null, 2), { mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+// Persist a delivery without letting a storage error affect the HTTP outcome: the error is
+// logged and the state kept in memory (see `unsaved`)
+function saveDelivery(delivery: WebhookDelivery): void {
+  try {
+    writeDelivery(delivery);
+    unsaved.delete(deliveryPath(delivery.id));
+  } catch (error) {
+    unsaved.set(deliveryPath(delivery.id), delivery);
+    log(`webhook ${delivery.event} → ${delivery.url}: failed to save delivery ${delivery.id} (${delivery.status}): ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function parseList(key: string): string[] {
+  return (getEnv(key) ?? "").split(",").map(s => s.trim()).filter(Boolean);
+}
+
+function retrySettings() {
+  const maxAttempts = parseInt(getEnv("WEBHOOK_MAX_ATTEMPTS") ?? "5", 10);
+  const retryMs = parseInt(getEnv("WEBHOOK_RETRY_MS") ?? "1000", 10);
+  return {
+    maxAttempts: isNaN(maxAttempts) || maxAttempts < 1 ? 5 : maxAttempts,
+    retryMs: isNaN(retryMs) || retryMs < 0 ? 1000 : retryMs,
+  };
+}
+
+/** True when the current agent has webhook URLs subscribed to `event`. */
+export function hasWebhooks(event: WebhookEvent): boolean {
+  if (!parseList("WEBHOOK_URLS").length) return false;
+  const events = parseList("WEBHOOK_EVENTS");
+  return !events.length || events.includes(event);
+}
+
+/** Signature over "<timestamp>.<body>", sent as X-Fagents-Signature: sha256=<hex>. */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+async function attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const secret = getEnv("WEBHOOK_SECRET");
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const body = JSON.stringify(delivery.payload);
+  const next: WebhookDelivery = { ...delivery, attempts: delivery.attempts + 1, lastAttemptAt: new Date().toISOString() };
+  delete next.httpStatus;
+  delete next.error;
+  try {
+    if (!secret) throw new Error("WEBHOOK_SECRET is not set");
+    const res = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Fagents-Event": delivery.event,
+        "X-Fagents-Delivery": delivery.id,
+        "X-Fagents-Timestamp": timestamp,
+        "X-Fagents-Signature": signPayload(secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    next.httpStatus = res.status;
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    next.status = "delivered";
+    next.deliveredAt = new Date().toISOString();
+  } catch (error) {
+    next.error = error instanceof Error ? error.message : String(error);
+  }
+  return next;
+}
+
+// Attempt now, then retry with exponential backoff until delivered or out of attempts.
+// Runs in the delivery's agent context so the current secret and retry settings apply.
+async function run(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  inFlight.add(delivery.id);
+  const exec = async () => {
+    const { maxAttempts, retryMs } = retrySettings();
+    let current = delivery;
+    while (true) {
+      current = await attempt(current);
+      if (current.status === "delivered") {
+        saveDelivery(current);
+        return current;
+      }
+      if (current.attempts >= maxAttempts) {
+        current = { ...current, status: "failed" };
+        saveDelivery(current);
+        log(`webhook ${current.event} → ${current.url} failed after ${current.attempts} attempts: ${current.error}`);
+        return current;
+      }
+      saveDelivery(current);
+      await new Promise(r => setTimeout(r, retryMs * 2 ** (current.attempts - 1)));
+    }
+  };
+  try {
+    return await (delivery.agentId ? runWithAgent(delivery.agentId, exec) : exec());
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+}
+
+/**
+ * Queue `event` to every webhook URL of the current agent. Returns the deliveries
+ * (already persisted as pending); sending and retries continue in the background.
+ */
+export function emitWebhook(event: WebhookEvent, data: Record<string, unknown>): WebhookDelivery[] {
+  if (!hasWebhooks(event)) return [];
+  const agentId = getCurrentAgentId() ?? null;
+  const payloadId = randomUUID();
+  const payload = { id: payloadId, event, agentId, timestamp: new Date().toISOString(), data };
+  return parseList("WEBHOOK_URLS").map(url => {
+    const delivery: WebhookDelivery = {
+      id: randomUUID(), agentId, event, url, payload, status: "pending", attempts: 0, createdAt: payload.timestamp,
+    };
+    saveDelivery(delivery);
+    run(delivery).catch(e => log(`webhook ${event}: ${e instanceof Error ? e.message : e}`));
+    return delivery;
+  });
+}
+
+export function getDelivery(id: string): WebhookDelivery | null {
+  let path: string;
+  try {
+    path = deliveryPath(id);
+  } catch {
+    return null;
+  }
+  const pending = unsaved.get(path);
+  if (pending) return pending;
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, "utf-8")) as WebhookDelivery;
+}
+
+function readDeliveries(): WebhookDelivery[] {
+  const dir = webhookDir();
+  const deliveries = new Map([...unsaved].filter(([path]) => path.startsWith(join(dir, "/"))));
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter(f => f.endsWith(".json"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [...deliveries.values()];
+    throw error;
+  }
+  for (const f of files) {
+    const path = join(dir, f);
+    if (deliveries.has(path)) continue;
+    try {
+      deliveries.set(path, JSON.parse(readFileSync(path, "utf-8")) as WebhookDelivery);
+    } catch {
+      // removed by a prune meanwhile, or not a delivery record
+    }
+  }
+  return [...deliveries.values()];
+}
+
+/** Matching deliveries, newest first (default 100). */
+export function listDeliveries(filter: { status?: DeliveryStatus; agentId?: string; event?: string; limit?: number } = {}): WebhookDelivery[] {
+  return readDeliveries()
+    .filter(d => (!filter.status || d.status === filter.status)
+      && (!filter.agentId || d.agentId === filter.agentId)
+      && (!filter.event || d.event === filter.event))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit ?? 100);
+}
+
+/**
+ * Re-send a failed delivery once, immediately — or a pending one whose retries were cut
+ * off by a restart. The outcome is recorded on the same delivery.
+ */
+export async function replayDelivery(id: string): Promise<WebhookDelivery> {
+  const delivery = getDelivery(id);
+  if (!delivery) throw new Error(`Webhook delivery not found: ${id}`);
+  const stale = delivery.status === "pending" && !inFlight.has(id);
+  if (delivery.status !== "failed" && !stale) throw new Error(`Webhook delivery ${id} is already ${delivery.status}`);
+  const exec = async () => {
+    const result = await attempt({ ...delivery, status: "pending" });
+    const done: WebhookDelivery = result.status === "delivered" ? result : { ...result, status: "failed" };
+    saveDelivery(done);
+    return done;
+  };
+  return delivery.agentId ? runWithAgent(delivery.agentId, exec) : exec();
+}
+
+/** Resume the retries of deliveries left pending by a previous run. Returns how many were resumed. */
+export function resumeDeliveries(): number {
+  const stale = readDeliveries().filter(d => d.status === "pending" && !inFlight.has(d.id));
+  for (const delivery of stale) {
+    run(delivery).catch(e => log(`webhook ${delivery.event}: ${e instanceof Error ? e.message : e}`));
+  }
+  if (stale.length) log(`webhooks: resumed ${stale.length} pending deliveries`);
+  return stale.length;
+}
+
+function retentionMs(): number {
+  const ms = parseInt(process.env.WEBHOOK_RETENTION_MS ?? "", 10);
+  return isNaN(ms) || ms <= 0 ? 7 * 24 * 60 * 60 * 1000 : ms;
+}
+
+/** Delete delivered and failed records older than WEBHOOK_RETENTION_MS. Returns how many were removed. */
+export function pruneDeliveries(now = Date.now()): number {
+  const cutoff = now - retentionMs();
+  let removed = 0;
+  for (const d of readDeliveries()) {
+    if (d.status === "pending" || Date.parse(d.createdAt) > cutoff) continue;
+    rmSync(deliveryPath(d.id), { force: true });
+    unsaved.delete(deliveryPath(d.id));
+    removed++;
+  }
+  return removed;
+}
+
+/** Resume interrupted deliveries and prune old ones now and hourly. Call once at startup. */
+export function startDeliveryMaintenance(): void {
+  resumeDeliveries();
+  const prune = () => {
+    const removed = pruneDeliveries();
+    if (removed) log(`webhooks: pruned ${removed} deliveries`);
+  };
+  prune();
+  if (!pruneTimer) {
+    pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS);
+    pruneTimer.unref();
+  }
+}
+
+// --- email.received: fed by the same IDLE watchers as /api/events ---
+
+// INBOX watchers (or their pending retry) by agent, so a config reload can stop or restart them
+const inboxWatches = new Map<string, { unsubscribe?: () => void; retry?: NodeJS.Timeout }>();
+
+function stopWatchingInbox(agentId: string | null): void {
+  const key = agentId ?? "default";
+  const entry = inboxWatches.get(key);
+  if (!entry) return;
+  inboxWatches.delete(key);
+  clearTimeout(entry.retry);
+  entry.unsubscribe?.();
+}
+
+async function watchInbox(agentId: string | null): Promise<void> {
+  const key = agentId ?? "default";
+  stopWatchingInbox(agentId);
+  const entry: { unsubscribe?: () => void; retry?: NodeJS.Timeout } = {};
+  inboxWatches.set(key, entry);
+  // False once this watch was stopped or replaced, e.g. by a reload while subscribe was connecting
+  const current = () => inboxWatches.get(key) === entry;
+  const exec = async () => {
+    if (!hasWebhooks("email.received")) {
+      inboxWatches.delete(key);
+      return;
+    }
+    try {
+      const unsubscribe = await watch.subscribe(key, getImapConfig(), "INBOX", event => {
+        if (event.type !== "new") return;
+        const { type: _type, ...data } = event;
+        const send = () => emitWebhook("email.received", data);
+        if (agentId) runWithAgent(agentId, send);
+        else send();
+      });
+      if (!current()) {
+        unsubscribe();
+        return;
+      }
+      entry.unsubscribe = unsubscribe;
+      log(`webhooks: watching INBOX for agent=${key}`);
+    } catch (e) {
+      if (!current()) return;
+      log(`webhooks: cannot watch INBOX for agent=${key}, retrying: ${e instanceof Error ? e.message : e}`);
+      entry.retry = setTimeout(() => watchInbox(agentId), WATCH_RETRY_MS).unref();
+    }
+  };
+  return agentId ? runWithAgent(agentId, exec) : exec();
+}
+
+/** Start INBOX watchers for every agent (or just `agentIds`) with an email.received webhook. */
+export async function startMailWebhooks(agentIds?: string[]): Promise<void> {
+  const ids = agentIds ?? (hasAgents() ? listAgentIds() : [null]);
+  await Promise.all(ids.map(watchInbox));
+}
+
+/**
+ * Apply a config reload to the INBOX watchers: removed agents stop, changed agents restart
+ * with their new IMAP config (or stop, if they dropped email.received), added agents start.
+ */
+export async function syncMailWebhooks(change: { added: string[]; removed: string[]; changed: string[] }): Promise<void> {
+  for (const id of [...change.removed, ...change.changed]) stopWatchingInbox(id);
+  await startMailWebhooks([...change.added, ...change.changed]);
+}